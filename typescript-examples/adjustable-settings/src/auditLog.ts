@@ -0,0 +1,90 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AppSettings } from './settings';
+
+// --- Interfaces and Types ---
+// What caused the mutation: a proposal (model, local rules or preset) or a rollback
+export type AuditAction = "update" | "preset" | "undo" | "redo" | "revert_to_time" | "reset" | "switch_profile";
+
+export interface AuditEntry {
+    timestamp: string; // ISO 8601
+    profile: string;
+    previousProfile?: string; // For switch_profile: the profile that was active before
+    action: AuditAction;
+    userRequest: string;
+    outcome: "applied" | "no_changes" | "rejected_by_user" | "rejected_by_constraints";
+    before: AppSettings;
+    after: AppSettings; // Settings after the mutation; equal to `before` when nothing was applied
+    proposed?: AppSettings; // What was proposed, also kept when the proposal was not applied
+    changedKeys: (keyof AppSettings)[];
+    clampedKeys: (keyof AppSettings)[]; // Out of range or invalid values replaced by validateSettings()
+    repairedKeys: (keyof AppSettings)[]; // Values changed by a cross-setting rule
+    model: string | null; // Model that proposed the change, "local-rules" for the local resolver, null if none was involved
+    confirmed: boolean | null; // null when the user wasn't asked (rollbacks, commands, nothing to confirm)
+}
+
+export interface AuditQuery {
+    key?: keyof AppSettings; // Only entries that changed, clamped or repaired this setting
+    from?: Date; // Inclusive
+    to?: Date; // Inclusive
+}
+
+/**
+ * Append-only audit log of every settings mutation, one JSON object per line (JSONL).
+ * Entries are never rewritten, so the file can be shipped as-is for compliance reviews.
+ */
+export class AuditLog {
+    constructor(private readonly filePath: string) {}
+
+    async append(entry: AuditEntry): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    }
+
+    /**
+     * Returns the entries matching the query, oldest first. Lines that can't be parsed are skipped.
+     */
+    async query({ key, from, to }: AuditQuery = {}): Promise<AuditEntry[]> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, 'utf-8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+        const entries: AuditEntry[] = [];
+        raw.split('\n').forEach((line, index) => {
+            if (line.trim().length === 0) return;
+            try {
+                entries.push(JSON.parse(line));
+            } catch (error) {
+                console.error(`Skipping unreadable line ${index + 1} of audit log ${this.filePath}`);
+            }
+        });
+        return entries.filter(entry => {
+            const timestamp = new Date(entry.timestamp);
+            if (from && timestamp < from) return false;
+            if (to && timestamp > to) return false;
+            if (key && ![...entry.changedKeys, ...entry.clampedKeys, ...entry.repairedKeys].includes(key)) return false;
+            return true;
+        });
+    }
+}
+
+/**
+ * One line summary of an entry followed by its changed settings, for the console.
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+    const confirmation = entry.confirmed === null ? "" : entry.confirmed ? ", confirmed" : ", declined";
+    const profile = entry.previousProfile !== undefined ? `${entry.previousProfile} → ${entry.profile}` : entry.profile;
+    const lines = [`${entry.timestamp} [${profile}] ${entry.action} "${entry.userRequest}": ${entry.outcome}${confirmation} (model: ${entry.model ?? "none"})`];
+    const target = entry.proposed ?? entry.after;
+    for (const key of entry.changedKeys) {
+        const flags = [
+            entry.clampedKeys.includes(key) ? "clamped" : "",
+            entry.repairedKeys.includes(key) ? "repaired" : "",
+        ].filter(f => f.length > 0);
+        lines.push(`  ${key}: ${JSON.stringify(entry.before[key])} → ${JSON.stringify(target[key])}${flags.length > 0 ? ` (${flags.join(', ')})` : ""}`);
+    }
+    return lines.join('\n');
+}
@@ -3,81 +3,74 @@ import {
     GenerativeModel,
     ChatSession,
     SchemaType,
+    FunctionCall,
     FunctionDeclaration,
     FunctionResponsePart,
     GenerateContentRequest
 } from "@google/generative-ai";
 import * as readline from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
+import path from 'path';
+import {
+    AppSettings,
+    SettingDefinition,
+    SETTING_DEFINITIONS,
+    SETTING_KEYS,
+    DEFAULT_APP_SETTINGS,
+    buildSettingsSchema,
+    describeSettingsFormat,
+    validateSettings
+} from './settings';
+import { SettingsStore } from './settingsStore';
+import { resolveLocally } from './localResolver';
+import { ACCESSIBILITY_PRESETS, AccessibilityPreset, findPreset } from './presets';
+import { ConstraintViolation, describeConstraints, enforceConstraints } from './settingsConstraints';
+import { Changeset, SettingChange, SettingsHistory, applyChanges, diffSettings, formatChanges } from './settingsHistory';
+import { exportSettings } from './settingsExport';
+import { AuditAction, AuditLog, AuditQuery, formatAuditEntry } from './auditLog';
+
+// --- Interfaces ---
+// Shape of the transactional call response: the complete settings plus a reason per changed key
+interface TransactionalSettingsResponse {
+    settings: Record<string, unknown>;
+    changeReasons: Array<{ key: keyof AppSettings, reason: string }>;
+}
+
+// Where a proposal came from: the transactional LLM call, the local rule-based resolver or a preset
+type ProposalSource = "model" | "local_rules" | "preset" | "none";
 
-// --- Interfaces and Types ---
-// Simulates an interface representing an APP. This can extend to any settings
-// but for this example we are using some of them focused on accessibility.
-interface AppSettings {
-    darkMode: boolean;
-    fontSizeFactor: number; // e.g., 0.8 to 2.0
-    notificationsEnabled: boolean;
-    notificationVolume: number; // 0.0 to 1.0
-    reduceMotion: boolean;
-    autoPlayVideos: boolean;
-    highContrast: boolean;
-    textToSpeechRate: number; // e.g., 0.5 to 2.0
+interface ProposalOutcome {
+    status: "applied" | "no_changes" | "rejected_by_user" | "rejected_by_constraints";
+    source: ProposalSource;
+    note?: string;
+    changes: SettingChange[];
+    constraintViolations: ConstraintViolation[];
+    settings: AppSettings;
 }
 
-interface SettingDefinition {
-    key: keyof AppSettings;
-    description: string;
-    examples: string[];
+interface SettingsProposal {
+    proposedSettings: AppSettings;
+    changes: SettingChange[];
+    violations: ConstraintViolation[]; // Cross-setting rules the proposal broke
+    rejected: boolean; // True when a violation couldn't be repaired
+    source: ProposalSource;
+    note?: string; // Explanation for the assistant, e.g. why the local resolver was used
+    clampedKeys: (keyof AppSettings)[]; // Values validateSettings() had to adjust, kept for the audit log
+    model: string | null; // Model that produced the proposal, kept for the audit log
 }
 
-// --- App Settings Definitions ---
-// Describes each setting for the LLM (used in update_app_settings tool)
-const SETTING_DEFINITIONS: SettingDefinition[] = [
-    {
-        key: "darkMode",
-        description: "Display mode. Boolean: 'true' for dark background with light text, 'false' for light background with dark text. Useful for light sensitivity or preference.",
-        examples: ["Enable dark mode", "Switch to light mode", "My eyes hurt from the bright screen", "I have photophobia"]
-    },
-    {
-        key: "fontSizeFactor",
-        description: "Text size multiplier. Number between 0.8 (smaller) and 2.0 (larger), default 1.0. Increases or decreases default text size.",
-        examples: ["Make text bigger", "Increase font size", "Shrink the text", "I find it hard to read this"]
-    },
-    {
-        key: "notificationsEnabled",
-        description: "Master toggle for all app notifications. Boolean: 'true' to allow notifications, 'false' to block all.",
-        examples: ["Turn off notifications", "Enable notifications", "I am not getting any notifications", "Disable notifications", "I don't want to be notified"]
-    },
-    {
-        key: "notificationVolume",
-        description: "Volume for notification sounds. Number between 0.0 (muted) and 1.0 (max volume). Requires notificationsEnabled=true.",
-        examples: ["Make notifications louder", "Mute notification sounds", "Turn down the alert volume", "Can barely hear the pings"]
-    },
-    {
-        key: "reduceMotion",
-        description: "Reduces non-essential animations and motion effects. Boolean: 'true' to reduce motion, 'false' for standard animations. Helps users sensitive to motion.",
-        examples: ["Reduce motion effects", "Turn off animations", "Too much movement on screen", "I get dizzy easily", "Turn on animation", "Turn on effects"]
-    },
-    {
-        key: "autoPlayVideos",
-        description: "Controls if videos play automatically. Boolean: 'true' to autoplay, 'false' to require manual play.",
-        examples: ["Stop videos from playing automatically", "Enable video autoplay", "Don't play videos unless I click", "I don't want videos start on their own"]
-    },
-    {
-        key: "highContrast",
-        description: "Increases color contrast between text and background. Boolean: 'true' for high contrast mode, 'false' for standard contrast. Aids users with low vision.",
-        examples: ["Enable high contrast mode", "Increase contrast", "Make text stand out more", "Colors are hard to distinguish"]
-    },
-    {
-        key: "textToSpeechRate",
-        description: "Speed for screen reader voice. Number between 0.5 (slower) and 2.0 (faster), default 1.0.",
-        examples: ["Speak faster", "Slow down the reading speed", "Adjust voice speed", "Make the text-to-speech slower"]
-    }
-];
+// --- Constants ---
+const SETTINGS_FILE_PATH = path.join(__dirname, '../data', 'settings.json');
+const HISTORY_FILE_PATH = path.join(__dirname, '../data', 'history.json');
+const AUDIT_LOG_FILE_PATH = path.join(__dirname, '../data', 'audit.jsonl');
+const EXPORT_DIR_PATH = path.join(__dirname, '../data', 'export');
 
 // --- Helper Functions ---
 
 async function getApiKey(): Promise<string> {
+    // Set by callers that run a single request, such as the intent router of user-intent-classification
+    const fromEnvironment = process.env.GEMINI_API_KEY?.trim();
+    if (fromEnvironment) return fromEnvironment;
     const rl = readline.createInterface({ input, output });
     console.log("\n---------------------------------------------------------------");
     console.log("This example requires a Google Gemini API Key.");
@@ -92,22 +85,27 @@ async function getApiKey(): Promise<string> {
     return apiKey.trim();
 }
 
+async function getUserInput(prompt: string): Promise<string> {
+    const rl = readline.createInterface({ input, output });
+    const answer = await rl.question(prompt);
+    rl.close();
+    return answer.trim();
+}
+
+async function confirmChanges(): Promise<boolean> {
+    const answer = await getUserInput('Apply these changes? (y/N): ');
+    return answer.toLowerCase().startsWith('y');
+}
+
+// Recorded as the "model" of proposals made by the local rule-based resolver
+const LOCAL_RULES_MODEL = "local-rules";
+
 // --- Tool Implementations ---
 
-// Simulates fetching the current application settings
-async function get_current_app_settings(): Promise<AppSettings> {
+// Fetches the current application settings from the settings store
+async function get_current_app_settings(store: SettingsStore): Promise<AppSettings> {
     console.log("\n--- TOOL CALL: get_current_app_settings ---");
-    // In a real app, this would read from storage (e.g., localStorage, database)
-    const currentSettings: AppSettings = {
-        darkMode: false,
-        fontSizeFactor: 1.0,
-        notificationsEnabled: true,
-        notificationVolume: 0.7,
-        reduceMotion: false,
-        autoPlayVideos: true,
-        highContrast: false,
-        textToSpeechRate: 1.0,
-    };
+    const currentSettings = await store.load();
     console.log("Current Settings:", JSON.stringify(currentSettings));
     console.log("--- TOOL RESULT: Returning current settings ---");
     return currentSettings;
@@ -116,16 +114,25 @@ async function get_current_app_settings(): Promise<AppSettings> {
 /**
  * Tool: Calculates new settings using a transactional call.
  * Needs access to a model instance and setting definitions.
+ * Returns the proposed settings and the per-key diff; nothing is applied until the user confirms.
  */
 async function update_app_settings(
     { currentSettings, userRequest }: { currentSettings: AppSettings, userRequest: string },
     model: GenerativeModel, // Pass model instance for transactional call
     settingDefinitions: SettingDefinition[] // Pass definitions
-): Promise<AppSettings> {
+): Promise<SettingsProposal> {
     console.log(`\n--- TOOL CALL: update_app_settings ---`);
     console.log(`User Request: "${userRequest}"`);
     console.log(`Current Settings:`, JSON.stringify(currentSettings));
 
+    // Fast path: unambiguous commands like "enable dark mode" don't need an LLM call
+    const localResolution = resolveLocally(userRequest, currentSettings);
+    if (localResolution?.confident) {
+        console.log("Request resolved locally, skipping the transactional call.");
+        console.log(`--- TOOL RESULT: Returning proposed settings ---`);
+        return buildProposal(currentSettings, localResolution.proposedSettings, localResolution.reasons, "local_rules", localResolution.adjustedKeys, LOCAL_RULES_MODEL);
+    }
+
     // Prepare detailed descriptions for the transactional prompt
     const descriptions = settingDefinitions.map(
         d => `Setting Key: "${d.key}"\nDescription: ${d.description}\nCurrent Value: ${JSON.stringify(currentSettings[d.key])}\nExamples for Change: ${d.examples.join(', ')}`
@@ -133,7 +140,7 @@ async function update_app_settings(
 
     const transactionalPrompt = `Analyze the user request based on the current application settings and their descriptions provided below. Determine which settings need to change and calculate their new values based on the request (explicit or implicit). Infer reasonable changes (e.g., increase font factor by 0.2 for 'bigger font', set dark mode to true for 'light sensitivity'). Adhere to value ranges/types mentioned in descriptions.
 
-Return ONLY a single JSON object representing the *complete set* of application settings with the updated values. Ensure the output matches the AppSettings structure (boolean, number).
+Return ONLY a single JSON object with two fields: "settings", representing the *complete set* of application settings with the updated values, and "changeReasons", with one entry per setting whose value changed and a brief reason for the change. Ensure "settings" matches the AppSettings structure (boolean, number, enum values).
 
 Current Settings Object:
 ${JSON.stringify(currentSettings, null, 2)}
@@ -143,38 +150,39 @@ Setting Descriptions:
 ${descriptions}
 ---
 
+Rules Between Settings (must hold for the new settings):
+${describeConstraints()}
+
 User Request: "${userRequest}"
 
-Required JSON Output Format (Complete AppSettings Object):
+Required JSON Output Format:
 {
-  "darkMode": boolean,
-  "fontSizeFactor": number (0.8-2.0),
-  "notificationsEnabled": boolean,
-  "notificationVolume": number (0.0-1.0),
-  "reduceMotion": boolean,
-  "autoPlayVideos": boolean,
-  "highContrast": boolean,
-  "textToSpeechRate": number (0.5-2.0)
+  "settings": Complete AppSettings Object ${describeSettingsFormat()},
+  "changeReasons": [{ "key": setting key, "reason": string }]
 }`;
 
     const request: GenerateContentRequest = {
         contents: [{ role: "user", parts: [{ text: transactionalPrompt }] }],
         generationConfig: {
             responseMimeType: "application/json",
-            // Define schema for the AppSettings object
             responseSchema: {
                 type: SchemaType.OBJECT,
                 properties: {
-                    darkMode: { type: SchemaType.BOOLEAN },
-                    fontSizeFactor: { type: SchemaType.NUMBER },
-                    notificationsEnabled: { type: SchemaType.BOOLEAN },
-                    notificationVolume: { type: SchemaType.NUMBER },
-                    reduceMotion: { type: SchemaType.BOOLEAN },
-                    autoPlayVideos: { type: SchemaType.BOOLEAN },
-                    highContrast: { type: SchemaType.BOOLEAN },
-                    textToSpeechRate: { type: SchemaType.NUMBER },
+                    // Schema for the AppSettings object, derived from the settings registry
+                    settings: buildSettingsSchema(),
+                    changeReasons: {
+                        type: SchemaType.ARRAY,
+                        items: {
+                            type: SchemaType.OBJECT,
+                            properties: {
+                                key: { type: SchemaType.STRING, format: "enum", enum: [...SETTING_KEYS] },
+                                reason: { type: SchemaType.STRING }
+                            },
+                            required: ["key", "reason"]
+                        }
+                    }
                 },
-                required: Object.keys(currentSettings) as (keyof AppSettings)[]
+                required: ["settings", "changeReasons"]
             }
         }
     };
@@ -185,23 +193,261 @@ Required JSON Output Format (Complete AppSettings Object):
         const response = result.response;
         const responseText = response.text();
         console.log("Raw proposed settings JSON response:", responseText);
-        const proposedSettings = JSON.parse(responseText) as AppSettings;
-
+        const parsed = JSON.parse(responseText) as TransactionalSettingsResponse;
         // Basic validation (to make sure the values remain valid, Gemini would do its best but we need to guarantee the app won't break)
-        proposedSettings.fontSizeFactor = Math.max(0.8, Math.min(2.0, proposedSettings.fontSizeFactor));
-        proposedSettings.notificationVolume = Math.max(0.0, Math.min(1.0, proposedSettings.notificationVolume));
-        proposedSettings.textToSpeechRate = Math.max(0.5, Math.min(2.0, proposedSettings.textToSpeechRate));
+        const { settings: proposedSettings, adjustedKeys } = validateSettings(parsed.settings ?? {}, currentSettings);
+        if (adjustedKeys.length > 0) {
+            console.log(`Adjusted out of range, off-step or invalid values for: ${adjustedKeys.join(', ')}`);
+        }
 
-        console.log("Proposed Settings (validated):", JSON.stringify(proposedSettings));
+        const reasons = Object.fromEntries((parsed.changeReasons ?? []).map(r => [r.key, r.reason]));
+        const proposal = buildProposal(currentSettings, proposedSettings, reasons, "model", adjustedKeys, model.model);
+        console.log("Proposed Settings (validated):", JSON.stringify(proposal.proposedSettings));
         console.log(`--- TOOL RESULT: Returning proposed settings ---`);
-        return proposedSettings;
+        return proposal;
     } catch (error) {
         console.error("Error during update_app_settings transactional call:", error);
+        // Fall back to the local rule-based resolver so the user still gets a (best effort) change
+        if (localResolution) {
+            console.log("Falling back to the local rule-based resolver.");
+            const proposal = buildProposal(currentSettings, localResolution.proposedSettings, localResolution.reasons, "local_rules", localResolution.adjustedKeys, LOCAL_RULES_MODEL);
+            proposal.note = "The settings model was unavailable, so the request was interpreted with simple local rules. Tell the user the result may be less accurate than usual.";
+            return proposal;
+        }
         console.log("Returning current settings due to error.");
-        return currentSettings; // Return original settings on error
+        return { // Propose no changes on error
+            proposedSettings: currentSettings,
+            changes: [],
+            violations: [],
+            rejected: false,
+            source: "none",
+            clampedKeys: [],
+            model: model.model,
+            note: "The settings model was unavailable and the request could not be understood with the local rules. Ask the user to try again later or to phrase the request as a simple command, e.g. 'enable dark mode' or 'make the text bigger'."
+        };
     }
 }
 
+/**
+ * Checks validated settings against the cross-setting rules, repairing (or rejecting)
+ * proposals that break them, and builds the per-key diff against the current settings.
+ */
+function buildProposal(
+    currentSettings: AppSettings,
+    proposedSettings: AppSettings,
+    reasons: Partial<Record<keyof AppSettings, string>>,
+    source: ProposalSource,
+    clampedKeys: (keyof AppSettings)[],
+    model: string | null
+): SettingsProposal {
+    const { settings: constrainedSettings, violations, rejected } = enforceConstraints(proposedSettings, currentSettings);
+    violations.forEach(v => console.log(`Constraint ${v.constraintId} ${v.action}: ${v.detail}`));
+
+    const allReasons = { ...reasons };
+    for (const violation of violations) {
+        for (const key of Object.keys(violation.repairedValues ?? {}) as (keyof AppSettings)[]) {
+            allReasons[key] = allReasons[key] ? `${allReasons[key]}; adjusted by rule: ${violation.description}` : `Adjusted by rule: ${violation.description}`;
+        }
+    }
+    const changes = diffSettings(currentSettings, constrainedSettings, allReasons);
+    return { proposedSettings: constrainedSettings, changes, violations, rejected, source, clampedKeys, model };
+}
+
+/**
+ * Shows the diff of a proposal and only commits it (and records it in the history) once the user confirms it.
+ * Every proposal ends up in the audit log, whether it was applied or not.
+ */
+async function commitProposal(
+    proposal: SettingsProposal,
+    currentSettings: AppSettings,
+    userRequest: string,
+    store: SettingsStore,
+    history: SettingsHistory,
+    auditLog: AuditLog
+): Promise<ProposalOutcome> {
+    const { proposedSettings, changes, violations, rejected, source, note } = proposal;
+    console.log(`\nProposed changes:\n${formatChanges(changes)}`);
+    let status: ProposalOutcome["status"] = "no_changes";
+    let settings = currentSettings;
+    let confirmed: boolean | null = null;
+    if (rejected) {
+        status = "rejected_by_constraints";
+    } else if (changes.length > 0) {
+        confirmed = await confirmChanges();
+        if (confirmed) {
+            settings = await store.apply(proposedSettings);
+            await history.record(userRequest, changes);
+            status = "applied";
+        } else {
+            status = "rejected_by_user";
+        }
+    }
+    await auditLog.append({
+        timestamp: new Date().toISOString(),
+        profile: await store.getActiveProfile(),
+        action: source === "preset" ? "preset" : "update",
+        userRequest,
+        outcome: status,
+        before: currentSettings,
+        after: settings,
+        proposed: proposedSettings,
+        changedKeys: changes.map(c => c.key),
+        clampedKeys: proposal.clampedKeys,
+        repairedKeys: violations.flatMap(v => Object.keys(v.repairedValues ?? {}) as (keyof AppSettings)[]),
+        model: proposal.model,
+        confirmed,
+    });
+    return { status, source, note, changes, constraintViolations: violations, settings };
+}
+
+/**
+ * Appends the audit entry of a mutation that doesn't go through a proposal (undo, redo, reset...).
+ * For a profile switch, `previousProfile` is the profile that was active before.
+ */
+async function auditDirectMutation(
+    auditLog: AuditLog,
+    store: SettingsStore,
+    action: AuditAction,
+    userRequest: string,
+    before: AppSettings,
+    after: AppSettings,
+    previousProfile?: string
+): Promise<void> {
+    const profile = await store.getActiveProfile();
+    const changedKeys = diffSettings(before, after).map(c => c.key);
+    const switched = previousProfile !== undefined && previousProfile !== profile;
+    await auditLog.append({
+        timestamp: new Date().toISOString(),
+        profile,
+        previousProfile,
+        action,
+        userRequest,
+        outcome: changedKeys.length > 0 || switched ? "applied" : "no_changes",
+        before,
+        after,
+        changedKeys,
+        clampedKeys: [],
+        repairedKeys: [],
+        model: null,
+        confirmed: null,
+    });
+}
+
+// Reverts the given changesets (most recent first) and saves the resulting settings
+async function revertChangesets(changesets: Changeset[], store: SettingsStore): Promise<AppSettings> {
+    let settings = await store.load();
+    for (const changeset of changesets) {
+        settings = applyChanges(settings, changeset.changes, "backward");
+    }
+    return changesets.length > 0 ? store.apply(settings) : settings;
+}
+
+// Tool: Lists the accessibility presets and the user profiles
+async function list_presets_and_profiles(
+    store: SettingsStore
+): Promise<{ presets: AccessibilityPreset[], activeProfile: string, profiles: string[] }> {
+    console.log(`\n--- TOOL CALL: list_presets_and_profiles ---`);
+    const { activeProfile, profiles } = await store.listProfiles();
+    console.log(`--- TOOL RESULT: Returning ${ACCESSIBILITY_PRESETS.length} presets and ${profiles.length} profiles ---`);
+    return { presets: ACCESSIBILITY_PRESETS, activeProfile, profiles };
+}
+
+// Tool: Proposes the settings of a named accessibility preset on top of the current settings
+async function apply_preset(
+    { presetName }: { presetName: string },
+    currentSettings: AppSettings
+): Promise<SettingsProposal | { error: string }> {
+    console.log(`\n--- TOOL CALL: apply_preset ---`);
+    const preset = findPreset(presetName);
+    if (!preset) {
+        return { error: `Unknown preset "${presetName}". Available presets: ${ACCESSIBILITY_PRESETS.map(p => p.name).join(', ')}` };
+    }
+    const { settings: proposedSettings, adjustedKeys } = validateSettings({ ...currentSettings, ...preset.settings }, currentSettings);
+    const reason = `Preset '${preset.name}': ${preset.description}`;
+    const reasons = Object.fromEntries(Object.keys(preset.settings).map(key => [key, reason]));
+    console.log(`--- TOOL RESULT: Returning settings proposed by preset "${preset.name}" ---`);
+    return buildProposal(currentSettings, proposedSettings, reasons, "preset", adjustedKeys, null);
+}
+
+// Tool: Switches to another user profile, creating it if it doesn't exist
+async function switch_profile(
+    { profileName }: { profileName: string },
+    store: SettingsStore,
+    history: SettingsHistory
+): Promise<{ activeProfile: string, created: boolean, settings: AppSettings } | { error: string }> {
+    console.log(`\n--- TOOL CALL: switch_profile ---`);
+    try {
+        const { settings, created } = await store.switchProfile(profileName);
+        const activeProfile = await store.getActiveProfile();
+        history.useProfile(activeProfile);
+        console.log(`--- TOOL RESULT: Active profile is now "${activeProfile}" ---`);
+        return { activeProfile, created, settings };
+    } catch (error: any) {
+        console.error("Error switching profile:", error);
+        return { error: error.message };
+    }
+}
+
+// Tool: Lists the most recently applied settings changes
+async function list_settings_changes(
+    { limit }: { limit?: number },
+    history: SettingsHistory
+): Promise<{ changesets: Changeset[] }> {
+    console.log(`\n--- TOOL CALL: list_settings_changes ---`);
+    const changesets = history.recent(limit ?? 10);
+    console.log(`--- TOOL RESULT: Returning ${changesets.length} changesets ---`);
+    return { changesets };
+}
+
+// Tool: Reverts the last applied changeset(s)
+async function undo_settings_change(
+    { steps }: { steps?: number },
+    store: SettingsStore,
+    history: SettingsHistory
+): Promise<{ revertedChangesets: Changeset[], settings: AppSettings }> {
+    console.log(`\n--- TOOL CALL: undo_settings_change ---`);
+    const revertedChangesets = await history.undo(steps ?? 1);
+    const settings = await revertChangesets(revertedChangesets, store);
+    revertedChangesets.forEach(c => console.log(`Reverted changes for "${c.userRequest}":\n${formatChanges(c.changes)}`));
+    console.log(`--- TOOL RESULT: Reverted ${revertedChangesets.length} changesets ---`);
+    return { revertedChangesets, settings };
+}
+
+// Tool: Re-applies the last undone changeset(s)
+async function redo_settings_change(
+    { steps }: { steps?: number },
+    store: SettingsStore,
+    history: SettingsHistory
+): Promise<{ reappliedChangesets: Changeset[], settings: AppSettings }> {
+    console.log(`\n--- TOOL CALL: redo_settings_change ---`);
+    const reappliedChangesets = await history.redo(steps ?? 1);
+    let settings = await store.load();
+    for (const changeset of reappliedChangesets) {
+        settings = applyChanges(settings, changeset.changes, "forward");
+    }
+    if (reappliedChangesets.length > 0) settings = await store.apply(settings);
+    console.log(`--- TOOL RESULT: Re-applied ${reappliedChangesets.length} changesets ---`);
+    return { reappliedChangesets, settings };
+}
+
+// Tool: Reverts every changeset applied after a point in time
+async function revert_settings_to_time(
+    { timestamp }: { timestamp: string },
+    store: SettingsStore,
+    history: SettingsHistory
+): Promise<{ revertedChangesets: Changeset[], settings: AppSettings } | { error: string }> {
+    console.log(`\n--- TOOL CALL: revert_settings_to_time ---`);
+    console.log(`Reverting changes applied after ${timestamp}`);
+    const pointInTime = new Date(timestamp);
+    if (isNaN(pointInTime.getTime())) {
+        return { error: `Invalid timestamp: ${timestamp}` };
+    }
+    const revertedChangesets = await history.undoSince(pointInTime);
+    const settings = await revertChangesets(revertedChangesets, store);
+    console.log(`--- TOOL RESULT: Reverted ${revertedChangesets.length} changesets ---`);
+    return { revertedChangesets, settings };
+}
+
 // --- Tool Declarations ---
 const getCurrentSettingsTool: FunctionDeclaration = {
     name: "get_current_app_settings",
@@ -215,16 +461,7 @@ const updateSettingsTool: FunctionDeclaration = {
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
-            currentSettings: {
-                type: SchemaType.OBJECT,
-                // Dynamically generate properties from AppSettings keys
-                properties: SETTING_DEFINITIONS.reduce((acc, setting) => {
-                    acc[setting.key] = { type: setting.key === 'darkMode' || setting.key === 'notificationsEnabled' || setting.key === 'reduceMotion' || setting.key === 'autoPlayVideos' || setting.key === 'highContrast' ? SchemaType.BOOLEAN : SchemaType.NUMBER };
-                    return acc;
-                }, {} as any), // Cast to any for dynamic property building
-                required: SETTING_DEFINITIONS.map(s => s.key),
-                description: "The current state of all application settings, obtained via get_current_app_settings."
-            },
+            currentSettings: buildSettingsSchema("The current state of all application settings, obtained via get_current_app_settings."),
             userRequest: {
                 type: SchemaType.STRING,
                 description: "The original user query or statement indicating desired changes (can be explicit or implicit)."
@@ -234,18 +471,346 @@ const updateSettingsTool: FunctionDeclaration = {
     }
 };
 
+const listPresetsAndProfilesTool: FunctionDeclaration = {
+    name: "list_presets_and_profiles",
+    description: "Lists the named accessibility presets (with the settings each one applies) and the user profiles, including the active one.",
+    parameters: { type: SchemaType.OBJECT, properties: {} } // No parameters needed
+};
+
+const applyPresetTool: FunctionDeclaration = {
+    name: "apply_preset",
+    description: "Proposes the settings of a named accessibility preset on top of the current settings. The user confirms the changes before they are applied. Should be called after getting the current settings.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            presetName: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: ACCESSIBILITY_PRESETS.map(p => p.name),
+                description: "Name of the preset to apply."
+            }
+        },
+        required: ["presetName"]
+    }
+};
+
+const switchProfileTool: FunctionDeclaration = {
+    name: "switch_profile",
+    description: "Switches to another user profile with its own stored settings. The profile is created with the default settings if it doesn't exist.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            profileName: { type: SchemaType.STRING, description: "Name of the profile to switch to." }
+        },
+        required: ["profileName"]
+    }
+};
+
+const listSettingsChangesTool: FunctionDeclaration = {
+    name: "list_settings_changes",
+    description: "Lists the most recently applied settings changesets (most recent first), each with its id, time, the user request and the per-setting changes.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            limit: { type: SchemaType.INTEGER, description: "Maximum number of changesets to return. Defaults to 10." }
+        }
+    }
+};
+
+const undoSettingsChangeTool: FunctionDeclaration = {
+    name: "undo_settings_change",
+    description: "Reverts the most recently applied settings changeset(s), e.g. when the user says 'undo that'.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            steps: { type: SchemaType.INTEGER, description: "Number of changesets to undo. Defaults to 1." }
+        }
+    }
+};
+
+const redoSettingsChangeTool: FunctionDeclaration = {
+    name: "redo_settings_change",
+    description: "Re-applies the most recently undone settings changeset(s).",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            steps: { type: SchemaType.INTEGER, description: "Number of changesets to redo. Defaults to 1." }
+        }
+    }
+};
+
+const revertSettingsToTimeTool: FunctionDeclaration = {
+    name: "revert_settings_to_time",
+    description: "Restores the settings to how they were at a point in time by reverting every changeset applied after it, e.g. 'go back to how it was yesterday'.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            timestamp: {
+                type: SchemaType.STRING,
+                description: "ISO 8601 date-time; every change applied after it is reverted. Resolve relative dates ('yesterday') using the current date."
+            }
+        },
+        required: ["timestamp"]
+    }
+};
+
 // --- System Instruction Definition ---
 const SYSTEM_INSTRUCTION = `You are an AI assistant helping users manage application settings.
 
 WHEN THE USER EXPRESSES A DESIRE TO CHANGE SETTINGS (either explicitly like "increase font size" or implicitly like "it's hard to read" or "my eyes are sensitive"):
 1.  **Get Current State:** First, call the 'get_current_app_settings' function to retrieve the current settings values.
 2.  **Calculate New State:** Next, call the 'update_app_settings' function. Pass the *complete* 'currentSettings' object you received from the first function, and also pass the user's *original request* text as 'userRequest'. This function will determine the appropriate new settings.
-3.  **Confirm/Inform:** After the 'update_app_settings' function returns the proposed new settings, inform the user clearly about the changes that were made or proposed based on their request. If no changes were needed, inform them of that too.
+3.  **Confirm/Inform:** The user is shown the proposed changes and asked to confirm them before they are applied. After the 'update_app_settings' function returns, inform the user clearly about each change (old value, new value and why) and whether it was applied or rejected. If no changes were needed, inform them of that too. If the response includes a 'note', follow it when answering.
+4.  **Explain Adjustments:** Some settings depend on or conflict with each other. If the response lists 'constraintViolations', explain each one to the user: which related setting was adjusted automatically and why, or why the request was rejected (status 'rejected_by_constraints').
+
+WHEN THE USER DESCRIBES A COMMON ACCESSIBILITY NEED that matches a preset (e.g. "I have photophobia" -> 'photosensitive', "I get dizzy easily" -> 'motion-sensitive'):
+* Call 'get_current_app_settings' and then 'apply_preset' with the matching preset instead of 'update_app_settings', so the same need always resolves to the same settings. Use 'list_presets_and_profiles' if you are unsure which presets exist.
+* Use 'update_app_settings' for any request that no preset covers, including adjustments on top of a preset.
+
+WHEN THE USER WANTS TO SWITCH TO ANOTHER PROFILE (e.g. "switch to Maria's profile"): call 'switch_profile'. Each profile has its own settings and change history.
+
+WHEN THE USER WANTS TO ROLL BACK CHANGES:
+* "Undo that" or "redo that": call 'undo_settings_change' or 'redo_settings_change'.
+* Going back to a point in time ("how it was yesterday"): call 'revert_settings_to_time' with the matching timestamp. Use 'list_settings_changes' first if you need to find out which changes were made and when.
+* Afterwards, tell the user which changes were reverted or re-applied.
+
+The current date and time is ${new Date().toISOString()}.
 
 For general chat or questions not related to settings, respond conversationally.`;
 
+// --- Chat Session State ---
+// Shared by all the turns of the chat so the settings stay in sync with what was applied.
+interface SessionState {
+    store: SettingsStore;
+    history: SettingsHistory;
+    auditLog: AuditLog;
+    transactionalModel: GenerativeModel;
+    currentSettings: AppSettings;
+}
+
+const CHAT_COMMANDS = `Commands:
+  /show   Show the current settings
+  /reset  Reset the settings of the active profile to the defaults
+  /export Export the current settings to CSS, Android and iOS formats plus an HTML preview
+  /audit [key=<setting>] [from=<date>] [to=<date>]
+          Show the audit log, optionally only the entries of one setting or a date range
+  /quit   Exit the chat`;
+
+// Tools that only read state. Consecutive calls to them run concurrently, every other call
+// runs on its own (in order) because it changes the settings or asks the user to confirm.
+const READ_ONLY_TOOLS = new Set(["get_current_app_settings", "list_presets_and_profiles", "list_settings_changes"]);
+
+/**
+ * Runs one function call requested by the model and returns the response to send back.
+ * Errors become an error response for that call, so the other calls of the turn are unaffected.
+ */
+async function executeFunctionCall(fnCall: FunctionCall, userRequest: string, state: SessionState): Promise<FunctionResponsePart> {
+    const { name, args } = fnCall;
+    let apiResponse: any;
+    try {
+        if (name === "get_current_app_settings") {
+            apiResponse = await get_current_app_settings(state.store);
+            state.currentSettings = apiResponse; // <-- Store the fetched settings
+        } else if (name === "update_app_settings") {
+            // We need the user request of *this* turn here, not processed args
+            const toolArgs = {
+                currentSettings: state.currentSettings,
+                userRequest
+            };
+            const proposal = await update_app_settings(toolArgs, state.transactionalModel, SETTING_DEFINITIONS);
+            apiResponse = await commitProposal(proposal, state.currentSettings, userRequest, state.store, state.history, state.auditLog);
+            state.currentSettings = apiResponse.settings;
+        } else if (name === "list_presets_and_profiles") {
+            apiResponse = await list_presets_and_profiles(state.store);
+        } else if (name === "apply_preset") {
+            const proposal = await apply_preset(args as { presetName: string }, state.currentSettings);
+            apiResponse = "error" in proposal
+                ? proposal
+                : await commitProposal(proposal, state.currentSettings, userRequest, state.store, state.history, state.auditLog);
+            if ("settings" in apiResponse) state.currentSettings = apiResponse.settings;
+        } else if (name === "switch_profile") {
+            const previousProfile = await state.store.getActiveProfile();
+            apiResponse = await switch_profile(args as { profileName: string }, state.store, state.history);
+            if ("settings" in apiResponse) {
+                await auditDirectMutation(state.auditLog, state.store, "switch_profile", userRequest, state.currentSettings, apiResponse.settings, previousProfile);
+                state.currentSettings = apiResponse.settings;
+            }
+        } else if (name === "list_settings_changes") {
+            apiResponse = await list_settings_changes(args as { limit?: number }, state.history);
+        } else if (name === "undo_settings_change") {
+            apiResponse = await undo_settings_change(args as { steps?: number }, state.store, state.history);
+            await auditDirectMutation(state.auditLog, state.store, "undo", userRequest, state.currentSettings, apiResponse.settings);
+            state.currentSettings = apiResponse.settings;
+        } else if (name === "redo_settings_change") {
+            apiResponse = await redo_settings_change(args as { steps?: number }, state.store, state.history);
+            await auditDirectMutation(state.auditLog, state.store, "redo", userRequest, state.currentSettings, apiResponse.settings);
+            state.currentSettings = apiResponse.settings;
+        } else if (name === "revert_settings_to_time") {
+            apiResponse = await revert_settings_to_time(args as { timestamp: string }, state.store, state.history);
+            if ("settings" in apiResponse) {
+                await auditDirectMutation(state.auditLog, state.store, "revert_to_time", userRequest, state.currentSettings, apiResponse.settings);
+                state.currentSettings = apiResponse.settings;
+            }
+        } else {
+            console.warn(`Received unexpected function call: ${name}`);
+            apiResponse = { error: `Unknown function "${name}".` };
+        }
+    } catch (error: any) {
+        console.error(`Error running function call ${name}:`, error);
+        apiResponse = { error: error.message ?? String(error) };
+    }
+    return { functionResponse: { name, response: apiResponse } };
+}
+
+/**
+ * Runs all the function calls of one model turn. Consecutive read-only calls run concurrently,
+ * the others one at a time. The responses keep the order of the calls.
+ */
+async function executeFunctionCalls(functionCalls: FunctionCall[], userRequest: string, state: SessionState): Promise<FunctionResponsePart[]> {
+    const responses: FunctionResponsePart[] = [];
+    let index = 0;
+    while (index < functionCalls.length) {
+        let batchEnd = index + 1;
+        if (READ_ONLY_TOOLS.has(functionCalls[index].name)) {
+            while (batchEnd < functionCalls.length && READ_ONLY_TOOLS.has(functionCalls[batchEnd].name)) batchEnd++;
+        }
+        const batch = functionCalls.slice(index, batchEnd);
+        responses.push(...await Promise.all(batch.map(fnCall => executeFunctionCall(fnCall, userRequest, state))));
+        index = batchEnd;
+    }
+    return responses;
+}
+
+/**
+ * Sends one user turn to the chat and runs the function calling loop until the model
+ * answers with text. `userRequest` is the text of this turn, which is what the
+ * settings tools act upon.
+ */
+async function handleUserTurn(chat: ChatSession, userRequest: string, state: SessionState): Promise<void> {
+    let result = await chat.sendMessage(userRequest);
+
+    // --- Function Calling Handling Loop ---
+    let loopCount = 0;
+    const MAX_LOOPS = 5;
+
+    while (loopCount < MAX_LOOPS) {
+        loopCount++;
+        const response = result.response;
+        const functionCalls = response.functionCalls();
+
+        if (!functionCalls || functionCalls.length === 0) {
+            console.log(`\nAssistant: ${response.text()}`);
+            return;
+        }
+
+        console.log(`\nAssistant requested Function Calls (round ${loopCount}): ${functionCalls.map(c => c.name).join(', ')}`);
+        const functionResponseParts = await executeFunctionCalls(functionCalls, userRequest, state);
+
+        // Every call needs its response in the same message, otherwise the chat history is inconsistent
+        console.log(`Sending ${functionResponseParts.length} Function Response(s) back to model...`);
+        result = await chat.sendMessage(functionResponseParts);
+    } // End while loop
+
+    console.error("Exited loop due to maximum iterations.");
+    const lastResponseText = result.response.text();
+    if (lastResponseText) console.log(`Assistant (Last): ${lastResponseText}`);
+}
+
+/**
+ * Parses a date argument of /audit. A plain date ("2025-05-01") as the end of a range
+ * covers that whole day.
+ */
+function parseAuditDate(value: string, endOfDay: boolean): Date | null {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+}
+
+/**
+ * Handles /audit, e.g. "/audit key=fontSizeFactor from=2025-05-01 to=2025-05-31".
+ */
+async function showAuditLog(args: string[], auditLog: AuditLog): Promise<void> {
+    const query: AuditQuery = {};
+    for (const arg of args) {
+        const [name, value = ""] = arg.split('=');
+        if (name === "key") {
+            const key = SETTING_KEYS.find(k => k.toLowerCase() === value.toLowerCase());
+            if (!key) {
+                console.log(`\nUnknown setting "${value}". Settings: ${SETTING_KEYS.join(', ')}`);
+                return;
+            }
+            query.key = key;
+        } else if (name === "from" || name === "to") {
+            const date = parseAuditDate(value, name === "to");
+            if (!date) {
+                console.log(`\nInvalid date "${value}", use e.g. 2025-05-01 or 2025-05-01T14:30:00Z.`);
+                return;
+            }
+            query[name] = date;
+        } else {
+            console.log(`\nUnknown /audit argument "${arg}".\n${CHAT_COMMANDS}`);
+            return;
+        }
+    }
+    const entries = await auditLog.query(query);
+    console.log(`\n${entries.length} audit log entries:`);
+    entries.forEach(entry => console.log(formatAuditEntry(entry)));
+}
+
+/**
+ * Handles a chat command such as /show. Returns false when the chat should end.
+ */
+async function handleCommand(commandLine: string, state: SessionState): Promise<boolean> {
+    const [command, ...args] = commandLine.split(/\s+/);
+    switch (command.toLowerCase()) {
+        case "/quit":
+            return false;
+        case "/show":
+            console.log(`\nProfile "${await state.store.getActiveProfile()}":`);
+            console.log(JSON.stringify(state.currentSettings, null, 2));
+            return true;
+        case "/reset": {
+            // Recorded in the history like any other change so it can be undone
+            const changes = diffSettings(state.currentSettings, DEFAULT_APP_SETTINGS, {});
+            changes.forEach(c => c.reason = "Reset to defaults");
+            console.log(`\nResetting to defaults:\n${formatChanges(changes)}`);
+            if (changes.length > 0) {
+                const before = state.currentSettings;
+                state.currentSettings = await state.store.apply(DEFAULT_APP_SETTINGS);
+                await state.history.record("/reset", changes);
+                await auditDirectMutation(state.auditLog, state.store, "reset", "/reset", before, state.currentSettings);
+            }
+            return true;
+        }
+        case "/audit":
+            await showAuditLog(args, state.auditLog);
+            return true;
+        case "/export": {
+            const exported = await exportSettings(state.currentSettings, EXPORT_DIR_PATH);
+            console.log(`\nExported the settings of profile "${await state.store.getActiveProfile()}":`);
+            exported.forEach(file => console.log(`  ${file.format}: ${file.filePath}`));
+            return true;
+        }
+        default:
+            console.log(`\nUnknown command "${command}".\n${CHAT_COMMANDS}`);
+            return true;
+    }
+}
+
 // --- Main Execution Logic ---
 async function main() {
+    // One-shot mode: npm run dev -- --request "<text>" handles this request (with the usual
+    // confirmation) and exits, e.g. when another example hands off a settings request
+    const requestIndex = process.argv.indexOf("--request");
+    const oneShotRequest = requestIndex === -1 ? null : (process.argv[requestIndex + 1] ?? "").trim();
+    if (oneShotRequest === "") {
+        console.error("Missing request after --request.");
+        process.exit(1);
+    }
+
     let apiKey: string;
     try {
         apiKey = await getApiKey();
@@ -260,104 +825,84 @@ async function main() {
     const model = genAI.getGenerativeModel({
         model: "gemini-2.0-flash-exp",
         systemInstruction: SYSTEM_INSTRUCTION,
-        tools: [{ functionDeclarations: [getCurrentSettingsTool, updateSettingsTool] }],
+        tools: [{
+            functionDeclarations: [
+                getCurrentSettingsTool,
+                updateSettingsTool,
+                listPresetsAndProfilesTool,
+                applyPresetTool,
+                switchProfileTool,
+                listSettingsChangesTool,
+                undoSettingsChangeTool,
+                redoSettingsChangeTool,
+                revertSettingsToTimeTool
+            ]
+        }],
     });
 
     const transactionalModel = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
 
+    const settingsStore = new SettingsStore(SETTINGS_FILE_PATH);
+    const settingsHistory = new SettingsHistory(HISTORY_FILE_PATH);
+    await settingsHistory.load();
+    settingsHistory.useProfile(await settingsStore.getActiveProfile());
+
+    const state: SessionState = {
+        store: settingsStore,
+        history: settingsHistory,
+        auditLog: new AuditLog(AUDIT_LOG_FILE_PATH),
+        transactionalModel,
+        currentSettings: await settingsStore.load(),
+    };
+
     // --- Start the Chat Session ---
     const chat: ChatSession = model.startChat({
         history: []
     });
 
+    if (oneShotRequest) {
+        console.log(`\nUser: ${oneShotRequest}`);
+        await handleUserTurn(chat, oneShotRequest, state);
+        return;
+    }
+
     console.log("Chat session started.");
+    console.log(CHAT_COMMANDS);
 
-    // --- Get User Query ---
+    // --- Chat Loop ---
     const defaultQuery = "My eyes are sensitive to light and I need a bigger font size.";
-    const rlQuery = readline.createInterface({ input, output });
-    let userQuery = await rlQuery.question(`\nEnter your settings request (or press Enter for default: "${defaultQuery}"): `);
-    rlQuery.close();
-    userQuery = userQuery.trim() || defaultQuery;
-    console.log(`\nUser: ${userQuery}`);
-
-    try {
-        let result = await chat.sendMessage(userQuery); // Send initial user query
-
-        // --- Function Calling Handling Loop ---
-        let loopCount = 0;
-        const MAX_LOOPS = 5;
-        let currentSettingsData: AppSettings | null = null;
-
-        while (loopCount < MAX_LOOPS) {
-            loopCount++;
-            const response = result.response;
-            const functionCalls = response.candidates?.[0]?.content?.parts
-                ?.filter(part => !!part.functionCall)
-                .map(part => part.functionCall);
-
-            if (!functionCalls || functionCalls.length === 0) {
-                console.log(`\nAssistant (Final Response): ${response.text()}`);
-                break;
-            }
-
-            const fnCall = functionCalls[0];
-            const { name, args } = fnCall;
-            console.log(`\nAssistant requested Function Call ${loopCount}: ${name}`);
-
-            let apiResponse: any;
-            let functionResponsePart: FunctionResponsePart | null = null;
-
-            if (name === "get_current_app_settings") {
-                apiResponse = await get_current_app_settings();
-                currentSettingsData = apiResponse; // <-- Store the fetched settings
-                functionResponsePart = { functionResponse: { name, response: apiResponse } };
-            } else if (name === "update_app_settings") {
-                // Ensure we have current settings and the original query
-                if (!currentSettingsData) {
-                    throw new Error("Cannot call update_app_settings without current settings. get_current_app_settings must be called first.");
-                }
-                // We need the *original* user query here, not processed args
-                const toolArgs = {
-                    currentSettings: currentSettingsData,
-                    userRequest: userQuery // Pass original query
-                };
-                apiResponse = await update_app_settings(toolArgs, transactionalModel, SETTING_DEFINITIONS);
-                functionResponsePart = { functionResponse: { name, response: apiResponse } };
-            } else {
-                console.warn(`Received unexpected function call: ${name}`);
-                break;
-            }
-
-            if (functionResponsePart) {
-                console.log(`Sending Function Response [${name}] back to model...`);
-                result = await chat.sendMessage([functionResponsePart]);
-            } else {
-                console.error("Error preparing function response part.");
-                break;
-            }
-
-            if (loopCount >= MAX_LOOPS) {
-                 console.warn("Maximum function call loops reached.");
-                 break;
-            }
-        } // End while loop
+    let isFirstTurn = true;
+    while (true) {
+        const prompt = isFirstTurn
+            ? `\nEnter your settings request (or press Enter for default: "${defaultQuery}"): `
+            : `\nYou: `;
+        let userRequest = await getUserInput(prompt);
+        if (isFirstTurn) {
+            userRequest = userRequest || defaultQuery;
+            isFirstTurn = false;
+        }
+        if (!userRequest) continue;
 
-        if(loopCount >= MAX_LOOPS) {
-            console.error("Exited loop due to maximum iterations.");
-            const lastResponseText = result.response.text();
-             if (lastResponseText) console.log(`Assistant (Last): ${lastResponseText}`);
+        if (userRequest.startsWith("/")) {
+            if (!await handleCommand(userRequest, state)) break;
+            continue;
         }
 
-    } catch (error: any) {
-        console.error("\n--- ERROR DURING CHAT OR PROCESSING ---");
-        console.error("Error message:", error.message);
-         if(error.response?.candidates) console.error("Response Candidates:", JSON.stringify(error.response.candidates, null, 2));
-        console.error("---------------------------------------\n");
+        console.log(`\nUser: ${userRequest}`);
+        try {
+            await handleUserTurn(chat, userRequest, state);
+        } catch (error: any) {
+            console.error("\n--- ERROR DURING CHAT OR PROCESSING ---");
+            console.error("Error message:", error.message);
+            if(error.response?.candidates) console.error("Response Candidates:", JSON.stringify(error.response.candidates, null, 2));
+            console.error("---------------------------------------\n");
+        }
     }
+    console.log("Goodbye!");
 } // End main
 
 // Run the main function
 main().catch(error => {
     console.error("Unhandled error during execution:", error);
     process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,36 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Reads and parses a JSON file. Returns null when the file doesn't exist yet.
+ */
+export async function readJsonFile(filePath: string): Promise<any | null> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+    return JSON.parse(raw);
+}
+
+/**
+ * Writes a JSON file atomically (temporary file + rename) so a crash never leaves
+ * a half-written file behind. Every write has its own temporary file, so concurrent writes
+ * to the same file (e.g. from tools run in parallel) can't rename each other's.
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
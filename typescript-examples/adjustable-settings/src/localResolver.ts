@@ -0,0 +1,283 @@
+import { AppSettings, DEFAULT_APP_SETTINGS, SETTING_KEYS, getSettingSpec, validateSettings } from './settings';
+
+// --- Interfaces and Types ---
+export interface LocalResolution {
+    proposedSettings: AppSettings;
+    reasons: Partial<Record<keyof AppSettings, string>>;
+    // True when every part of the request named exactly one setting and said how to change it,
+    // and no value had to be adjusted, so the result can be used without asking the LLM
+    confident: boolean;
+    adjustedKeys: (keyof AppSettings)[]; // Values that had to be clamped to their range or step, e.g. "volume to 150%"
+}
+
+interface PhraseMatch {
+    key: keyof AppSettings;
+    phrase: string;
+    start: number;
+    end: number;
+    off: boolean; // The phrase refers to the setting's 'false' state (offKeywords)
+}
+
+type Direction = "on" | "off" | "increase" | "decrease" | "max" | "min";
+
+// --- Direction Words ---
+// Booleans treat increase/decrease words as on/off ("increase contrast"), numbers treat
+// on/off words as max/min ("mute" the volume, "turn off" the sounds).
+const DIRECTION_WORDS: Record<Direction, string[]> = {
+    on: ["turn on", "switch on", "switch to", "enable", "activate", "use", "start"],
+    off: ["turn off", "switch off", "disable", "deactivate", "stop", "don't", "do not", "no more", "without"],
+    increase: ["increase", "bigger", "larger", "louder", "faster", "more", "raise", "higher", "speed up", "turn up", "add"],
+    decrease: ["decrease", "smaller", "shrink", "quieter", "slower", "slow down", "less", "lower", "reduce", "turn down", "tighten"],
+    max: ["max", "maximum", "highest"],
+    min: ["min", "minimum", "lowest", "mute"],
+};
+
+// Splits a request such as "enable dark mode and make the text bigger" into independent parts
+const CLAUSE_SEPARATOR = /[,;!?]|\.(?!\d)|\band\b|\balso\b|\bbut\b|\bthen\b/;
+
+// Two requests with at least this share of common words are considered to mean the same thing
+const EXAMPLE_SIMILARITY_THRESHOLD = 0.5;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findPhrase(text: string, phrase: string): Array<{ start: number, end: number }> {
+    const regex = new RegExp(`(?<![\\w-])${escapeRegExp(phrase)}(?![\\w-])`, 'g');
+    return [...text.matchAll(regex)].map(m => ({ start: m.index!, end: m.index! + phrase.length }));
+}
+
+function tokenize(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9']+/).filter(t => t.length > 0));
+}
+
+function similarity(a: string, b: string): number {
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    const common = [...tokensA].filter(t => tokensB.has(t)).length;
+    return common / (tokensA.size + tokensB.size - common || 1);
+}
+
+/**
+ * Finds the keywords of every setting in the clause. Matches that are part of a longer
+ * match (e.g. "text" inside "text-to-speech") are dropped, and only the longest match
+ * is kept per setting.
+ */
+function matchKeywords(clause: string): PhraseMatch[] {
+    const matches: PhraseMatch[] = [];
+    for (const key of SETTING_KEYS) {
+        const spec = getSettingSpec(key);
+        const offKeywords = spec.type === "boolean" ? spec.offKeywords ?? [] : [];
+        for (const [phrases, off] of [[spec.keywords, false], [offKeywords, true]] as const) {
+            for (const phrase of phrases) {
+                findPhrase(clause, phrase).forEach(span => matches.push({ key, phrase, off, ...span }));
+            }
+        }
+    }
+    const outermost = matches.filter(m => !matches.some(o =>
+        o !== m && o.start <= m.start && o.end >= m.end && (o.end - o.start) > (m.end - m.start)
+    ));
+    const longestPerKey = new Map<keyof AppSettings, PhraseMatch>();
+    for (const match of outermost) {
+        const current = longestPerKey.get(match.key);
+        if (!current || (match.end - match.start) > (current.end - current.start)) {
+            longestPerKey.set(match.key, match);
+        }
+    }
+    return [...longestPerKey.values()];
+}
+
+/**
+ * Finds the direction words of the clause, ignoring the ones that are only part of a
+ * longer keyword (e.g. "reduce" in "reduce motion").
+ */
+function findDirections(clause: string, keywordMatches: PhraseMatch[]): Direction[] {
+    const directions: Direction[] = [];
+    for (const [direction, words] of Object.entries(DIRECTION_WORDS) as [Direction, string[]][]) {
+        const found = words.some(word => findPhrase(clause, word).some(span =>
+            !keywordMatches.some(m => span.start >= m.start && span.end <= m.end && (m.end - m.start) > (span.end - span.start))
+        ));
+        if (found) directions.push(direction);
+    }
+    return directions;
+}
+
+// How a number in the request relates to the new value of a setting
+type NumberMention =
+    | { kind: "absolute", value: number } // "set the volume to 50%", "font size to 1.5x"
+    | { kind: "percent", percent: number, by: boolean } // "20% bigger", "by 10%": relative to the current value
+    | { kind: "offset", amount: number } // "by 0.2"
+    | { kind: "steps", count: number } // "3 sizes bigger", "2 steps"
+    | { kind: "unclear", value: number }; // "volume 50%", "1.5x": probably the new value, but the request doesn't say
+
+interface ResolvedValue {
+    value: boolean | number | string;
+    certain: boolean; // False when the value is a guess, e.g. from a number whose meaning is unclear
+}
+
+const NUMBER_PATTERN = /(?:\b(to|by)\s+)?(\d+(?:\.\d+)?)\s*(%|x\b|(?:steps?|sizes?|levels?|notches?)\b)?/g;
+
+function toNumberMention(match: RegExpMatchArray): NumberMention {
+    const [, prefix, digits, unit] = match;
+    const value = parseFloat(digits);
+    if (unit && unit !== "%" && unit !== "x") {
+        return prefix === "to" ? { kind: "unclear", value } : { kind: "steps", count: value };
+    }
+    // Only "to" makes a number the new value; percentages are turned into factors
+    if (prefix === "to") return { kind: "absolute", value: unit === "%" ? value / 100 : value };
+    if (unit === "%") return { kind: "percent", percent: value, by: prefix === "by" };
+    if (prefix === "by" && !unit) return { kind: "offset", amount: value };
+    return { kind: "unclear", value };
+}
+
+/**
+ * Finds the number of the clause and what it means. A number after "to" wins (e.g. "from 50% to
+ * 70%"); any other combination of several numbers is unclear.
+ */
+function findNumberMention(clause: string): NumberMention | null {
+    const matches = [...clause.matchAll(NUMBER_PATTERN)];
+    if (matches.length === 0) return null;
+    const mentions = matches.map(toNumberMention);
+    const absolute = mentions.find(m => m.kind === "absolute");
+    if (absolute) return absolute;
+    return mentions.length === 1 ? mentions[0] : { kind: "unclear", value: parseFloat(matches[0][2]) };
+}
+
+/**
+ * Drops the floating point noise of additions such as 1.0 + 0.2 (1.2000000000000002), so values
+ * on the step of a setting aren't reported as adjusted.
+ */
+function dropFloatNoise(value: number): number {
+    return parseFloat(value.toFixed(6));
+}
+
+/**
+ * Resolves the new value of one setting from the clause. Returns undefined when the
+ * clause doesn't say how the setting should change.
+ */
+function resolveValue(
+    key: keyof AppSettings,
+    clause: string,
+    directions: Direction[],
+    off: boolean,
+    currentSettings: AppSettings
+): ResolvedValue | undefined {
+    const spec = getSettingSpec(key);
+    const has = (d: Direction) => directions.includes(d);
+    switch (spec.type) {
+        case "boolean": {
+            const turnOn = has("on") || has("increase") || has("max");
+            const turnOff = has("off") || has("decrease") || has("min");
+            if (turnOn === turnOff) return undefined; // No direction, or contradicting ones
+            // "turn off animations" means reduceMotion=true
+            return { value: off ? turnOff : turnOn, certain: true };
+        }
+        case "number": {
+            const current = currentSettings[key] as number;
+            // +1 for "increase", -1 for "decrease", 0 when there is no direction or contradicting ones
+            const sign = (has("increase") ? 1 : 0) - (has("decrease") ? 1 : 0);
+            const mention = findNumberMention(clause);
+            if (mention) {
+                switch (mention.kind) {
+                    case "absolute":
+                        return { value: mention.value, certain: true };
+                    case "unclear":
+                        return { value: mention.value, certain: false };
+                    case "percent":
+                        // "20% bigger" multiplies by 1.2; a bare "50%" is most likely the new value
+                        if (sign !== 0) return { value: dropFloatNoise(current * (1 + sign * mention.percent / 100)), certain: true };
+                        return mention.by ? undefined : { value: mention.percent / 100, certain: false };
+                    case "offset":
+                        return sign !== 0 ? { value: dropFloatNoise(current + sign * mention.amount), certain: true } : undefined;
+                    case "steps":
+                        return sign !== 0 ? { value: dropFloatNoise(current + sign * mention.count * spec.step), certain: true } : undefined;
+                }
+            }
+            if (has("max") || has("on")) return { value: spec.max, certain: true };
+            if (has("min") || has("off")) return { value: spec.min, certain: true };
+            if (sign !== 0) return { value: dropFloatNoise(current + sign * spec.step), certain: true };
+            return undefined;
+        }
+        case "enum": {
+            const value = spec.values.find(v => findPhrase(clause, v).length > 0);
+            if (value) return { value, certain: true };
+            if (has("off")) return { value: spec.default, certain: true };
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Finds the setting whose examples are most similar to the clause, for implicit requests
+ * such as "I get dizzy easily" that don't mention any keyword.
+ */
+function matchExample(clause: string): { key: keyof AppSettings, example: string } | null {
+    let best: { key: keyof AppSettings, example: string, score: number } | null = null;
+    for (const key of SETTING_KEYS) {
+        for (const example of getSettingSpec(key).examples) {
+            const score = similarity(clause, example);
+            if (score >= EXAMPLE_SIMILARITY_THRESHOLD && (!best || score > best.score)) {
+                best = { key, example, score };
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * Deterministic, rule-based interpretation of a settings request. It matches each part of
+ * the request against the keywords and examples of every setting and applies standard
+ * changes: booleans are toggled on or off, numbers move by their step (or by the steps or
+ * percentage mentioned, or to the value after "to") and enums are set to the value that is mentioned.
+ *
+ * Returns null when nothing in the request could be resolved.
+ */
+export function resolveLocally(userRequest: string, currentSettings: AppSettings): LocalResolution | null {
+    const proposed: Partial<Record<keyof AppSettings, unknown>> = { ...currentSettings };
+    const reasons: Partial<Record<keyof AppSettings, string>> = {};
+    let confident = true;
+    let resolvedAny = false;
+
+    const clauses = userRequest.toLowerCase().split(CLAUSE_SEPARATOR).map(c => c.trim()).filter(c => c.length > 0);
+    for (const clause of clauses) {
+        const keywordMatches = matchKeywords(clause);
+        const directions = findDirections(clause, keywordMatches);
+
+        if (keywordMatches.length === 0) {
+            // Implicit request: only an example matches. Without a direction word we assume
+            // the user is describing a need, so boolean aids are switched to their non-default value.
+            confident = false;
+            const exampleMatch = matchExample(clause);
+            if (!exampleMatch) continue;
+            const { key, example } = exampleMatch;
+            const spec = getSettingSpec(key);
+            let resolved = resolveValue(key, clause, directions, false, currentSettings);
+            if (resolved === undefined && spec.type === "boolean") resolved = { value: !DEFAULT_APP_SETTINGS[key], certain: false };
+            if (resolved === undefined) continue;
+            proposed[key] = resolved.value;
+            reasons[key] = `Request matches the example "${example}"`;
+            resolvedAny = true;
+            continue;
+        }
+
+        // More than one setting in the same part of the request is ambiguous, e.g. "make text stand out more"
+        if (keywordMatches.length > 1) confident = false;
+        for (const match of keywordMatches) {
+            const resolved = resolveValue(match.key, clause, directions, match.off, currentSettings);
+            if (resolved === undefined) {
+                confident = false;
+                continue;
+            }
+            if (!resolved.certain) confident = false;
+            proposed[match.key] = resolved.value;
+            reasons[match.key] = `Request mentions "${match.phrase}"${directions.length > 0 ? ` (${directions.join(', ')})` : ""}`;
+            resolvedAny = true;
+        }
+    }
+
+    if (!resolvedAny) return null;
+    const { settings: proposedSettings, adjustedKeys } = validateSettings(proposed, currentSettings);
+    // A value that had to be clamped or rounded is probably not what the user asked for, e.g. "bigger" at the largest size
+    if (adjustedKeys.length > 0) confident = false;
+    return { proposedSettings, reasons, confident, adjustedKeys };
+}
@@ -0,0 +1,38 @@
+import { AppSettings } from './settings';
+
+// --- Interfaces ---
+export interface AccessibilityPreset {
+    name: string;
+    description: string;
+    settings: Partial<AppSettings>; // Only the settings the preset cares about, the rest stay as they are
+}
+
+// --- Accessibility Presets ---
+// Common needs resolve to the same settings every time instead of being inferred per request.
+export const ACCESSIBILITY_PRESETS: AccessibilityPreset[] = [
+    {
+        name: "low-vision",
+        description: "Larger text with more line spacing and high contrast. For users with low vision or who find it hard to read small text.",
+        settings: { fontSizeFactor: 1.6, lineSpacing: 1.5, highContrast: true, colorBlindMode: "none" }
+    },
+    {
+        name: "photosensitive",
+        description: "Dark mode without autoplaying videos or animations. For users with light sensitivity or photophobia.",
+        settings: { darkMode: true, autoPlayVideos: false, reduceMotion: true }
+    },
+    {
+        name: "motion-sensitive",
+        description: "Reduced motion and no autoplaying videos. For users who get dizzy or nauseous from movement on screen.",
+        settings: { reduceMotion: true, autoPlayVideos: false }
+    },
+    {
+        name: "hearing-impaired",
+        description: "Notifications enabled at maximum volume. For users with hearing loss.",
+        settings: { notificationsEnabled: true, notificationVolume: 1.0 }
+    },
+];
+
+export function findPreset(name: string): AccessibilityPreset | undefined {
+    const normalized = name.trim().toLowerCase();
+    return ACCESSIBILITY_PRESETS.find(p => p.name === normalized);
+}
@@ -0,0 +1,163 @@
+import { ObjectSchema, Schema, SchemaType } from "@google/generative-ai";
+import { NumberSettingSpec, SETTINGS_CATALOGUE, SettingSpec } from '../../shared/settingsCatalogue';
+
+// --- Setting Specifications ---
+// Every setting declares its type, allowed values, default, description, examples and
+// keywords in the shared settings catalogue (../../shared/settingsCatalogue.ts). Everything else
+// (the AppSettings type, the defaults, the JSON schemas, the prompt text, the validation and the
+// local resolver) is derived from it, so adding a new setting only requires a new catalogue entry.
+export type { SettingSpec };
+
+export const SETTINGS_REGISTRY = SETTINGS_CATALOGUE;
+
+type Registry = typeof SETTINGS_REGISTRY;
+
+type SettingValue<S> =
+    S extends { type: "boolean" } ? boolean :
+    S extends { type: "number" } ? number :
+    S extends { type: "enum", values: readonly (infer V)[] } ? V :
+    never;
+
+// --- Interfaces and Types ---
+// Simulates an interface representing an APP, derived from the registry.
+export type AppSettings = { -readonly [K in keyof Registry]: SettingValue<Registry[K]> };
+
+export interface SettingDefinition {
+    key: keyof AppSettings;
+    description: string;
+    examples: readonly string[];
+}
+
+export const SETTING_KEYS = Object.keys(SETTINGS_REGISTRY) as (keyof AppSettings)[];
+
+export function getSettingSpec(key: keyof AppSettings): SettingSpec {
+    return SETTINGS_REGISTRY[key];
+}
+
+// --- Default Settings ---
+// Values used on the very first run and to fill in any setting missing from storage.
+export const DEFAULT_APP_SETTINGS = Object.fromEntries(
+    SETTING_KEYS.map(key => [key, getSettingSpec(key).default])
+) as AppSettings;
+
+/**
+ * Human readable type and range of a setting, e.g. "number (0.8-2.0)".
+ */
+function describeSettingType(spec: SettingSpec): string {
+    switch (spec.type) {
+        case "boolean":
+            return "boolean";
+        case "number":
+            return `number (${spec.min.toFixed(1)}-${spec.max.toFixed(1)})`;
+        case "enum":
+            return `one of ${spec.values.map(v => `"${v}"`).join(' | ')}`;
+    }
+}
+
+/**
+ * Full description of a setting for the LLM, including its type, range and default.
+ */
+function describeSetting(spec: SettingSpec): string {
+    const stepInfo = spec.type === "number" ? `, in steps of ${spec.step}` : "";
+    return `${spec.description} Type: ${describeSettingType(spec)}, default ${JSON.stringify(spec.default)}${stepInfo}.`;
+}
+
+// --- App Settings Definitions ---
+// Describes each setting for the LLM (used in update_app_settings tool)
+export const SETTING_DEFINITIONS: SettingDefinition[] = SETTING_KEYS.map(key => ({
+    key,
+    description: describeSetting(getSettingSpec(key)),
+    examples: getSettingSpec(key).examples,
+}));
+
+/**
+ * Builds the JSON schema of a complete AppSettings object, used both for function
+ * declarations and for structured (JSON) responses.
+ */
+export function buildSettingsSchema(description?: string): ObjectSchema {
+    const properties: { [k: string]: Schema } = {};
+    for (const key of SETTING_KEYS) {
+        const spec = getSettingSpec(key);
+        switch (spec.type) {
+            case "boolean":
+                properties[key] = { type: SchemaType.BOOLEAN, description: spec.description };
+                break;
+            case "number":
+                properties[key] = { type: SchemaType.NUMBER, description: `${spec.description} Between ${spec.min} and ${spec.max}, in steps of ${spec.step}.` };
+                break;
+            case "enum":
+                properties[key] = { type: SchemaType.STRING, format: "enum", enum: [...spec.values], description: spec.description };
+                break;
+        }
+    }
+    return { type: SchemaType.OBJECT, properties, required: [...SETTING_KEYS], description };
+}
+
+/**
+ * Text version of the AppSettings structure for the "Required JSON Output Format" of prompts.
+ */
+export function describeSettingsFormat(): string {
+    const lines = SETTING_KEYS.map(key => `  "${key}": ${describeSettingType(getSettingSpec(key))}`);
+    return `{\n${lines.join(',\n')}\n}`;
+}
+
+/**
+ * Checks that a value has the type (and for enums, one of the values) declared for the setting.
+ */
+export function isValidSettingValue<K extends keyof AppSettings>(key: K, value: unknown): value is AppSettings[K] {
+    const spec = getSettingSpec(key);
+    switch (spec.type) {
+        case "boolean":
+            return typeof value === "boolean";
+        case "number":
+            return typeof value === "number" && Number.isFinite(value);
+        case "enum":
+            return typeof value === "string" && spec.values.includes(value);
+    }
+}
+
+/**
+ * Sets one setting, with the value typed by its key.
+ */
+export function setSetting<K extends keyof AppSettings>(settings: AppSettings, key: K, value: AppSettings[K]): void {
+    settings[key] = value;
+}
+
+/**
+ * Rounds a number to the closest value reachable from the minimum in standard steps,
+ * e.g. 1.13 becomes 1.2 for the font size (0.8, 1.0, 1.2, ...).
+ */
+export function roundToStep(spec: NumberSettingSpec, value: number): number {
+    const rounded = spec.min + Math.round((value - spec.min) / spec.step) * spec.step;
+    // Drop the floating point noise of the multiplication (e.g. 0.30000000000000004)
+    return Math.min(spec.max, parseFloat(rounded.toFixed(6)));
+}
+
+/**
+ * Makes sure the proposed settings are valid so the app won't break: numbers are clamped
+ * to their range and rounded to their step, and invalid values fall back to the given settings.
+ * Returns the validated settings and the keys that had to be adjusted.
+ */
+export function validateSettings(
+    proposedSettings: Partial<Record<keyof AppSettings, unknown>>,
+    fallbackSettings: AppSettings
+): { settings: AppSettings, adjustedKeys: (keyof AppSettings)[] } {
+    const settings = { ...fallbackSettings };
+    const adjustedKeys: (keyof AppSettings)[] = [];
+    for (const key of SETTING_KEYS) {
+        const spec = getSettingSpec(key);
+        const value = proposedSettings[key];
+        if (!isValidSettingValue(key, value)) {
+            adjustedKeys.push(key);
+            continue;
+        }
+        if (spec.type === "number") {
+            const clamped = roundToStep(spec, Math.max(spec.min, Math.min(spec.max, value as number)));
+            if (clamped !== value) adjustedKeys.push(key);
+            setSetting(settings, key, clamped);
+        } else {
+            setSetting(settings, key, value);
+        }
+    }
+    return { settings, adjustedKeys };
+}
@@ -0,0 +1,172 @@
+import { AppSettings, SETTING_KEYS } from './settings';
+
+// --- Interfaces and Types ---
+type SettingsPredicate = (proposed: AppSettings, previous: AppSettings) => boolean;
+
+// Outcome of checking a single constraint: values that repair it, or a rejection if it can't be repaired
+type ConstraintCheck = { repair: Partial<AppSettings> } | { reject: string } | null;
+
+export interface SettingsConstraint {
+    id: string;
+    kind: "requires" | "conflicts" | "exclusive";
+    description: string; // Shown to the LLMs, both in the transactional prompt and in violation reports
+    check: (proposed: AppSettings, previous: AppSettings) => ConstraintCheck;
+}
+
+export interface ConstraintViolation {
+    constraintId: string;
+    description: string;
+    action: "repaired" | "rejected";
+    detail: string;
+    repairedValues?: Partial<AppSettings>;
+}
+
+export interface ConstraintResult {
+    settings: AppSettings;
+    violations: ConstraintViolation[];
+    rejected: boolean;
+}
+
+// A setting-driven mode, e.g. "highContrast is true" or "colorBlindMode is not 'none'"
+interface SettingsMode {
+    name: string;
+    isActive: (settings: AppSettings) => boolean;
+    turnOff: Partial<AppSettings>;
+}
+
+function differsFrom(settings: AppSettings, values: Partial<AppSettings>): boolean {
+    return (Object.keys(values) as (keyof AppSettings)[]).some(key => settings[key] !== values[key]);
+}
+
+// --- Constraint Builders ---
+
+/**
+ * Dependency: whenever `when` holds, the settings in `then` must have the given values.
+ * Violations are repaired by applying `then`.
+ */
+export function requires(
+    { id, description, when, then }: { id: string, description: string, when: SettingsPredicate, then: Partial<AppSettings> }
+): SettingsConstraint {
+    return {
+        id,
+        kind: "requires",
+        description,
+        check: (proposed, previous) => when(proposed, previous) && differsFrom(proposed, then) ? { repair: then } : null,
+    };
+}
+
+/**
+ * Conflict: both modes can't be active at the same time. The mode that the proposal just
+ * turned on wins and the other one is turned off. If both were just turned on, the
+ * proposal is rejected since there's no way to tell which one the user wants.
+ */
+export function conflicts(
+    { id, description, modes }: { id: string, description: string, modes: [SettingsMode, SettingsMode] }
+): SettingsConstraint {
+    return exclusive({ id, description, modes, kind: "conflicts" });
+}
+
+/**
+ * Exclusive modes: at most one of the modes can be active. Same resolution as conflicts().
+ */
+export function exclusive(
+    { id, description, modes, kind = "exclusive" }: { id: string, description: string, modes: SettingsMode[], kind?: SettingsConstraint["kind"] }
+): SettingsConstraint {
+    return {
+        id,
+        kind,
+        description,
+        check: (proposed, previous) => {
+            const active = modes.filter(m => m.isActive(proposed));
+            if (active.length <= 1) return null;
+            const newlyActive = active.filter(m => !m.isActive(previous));
+            if (newlyActive.length > 1) {
+                return { reject: `${newlyActive.map(m => m.name).join(' and ')} can't be turned on together.` };
+            }
+            // Keep the newly activated mode, or the first one if they were all active already
+            const winner = newlyActive[0] ?? active[0];
+            const repair = Object.assign({}, ...active.filter(m => m !== winner).map(m => m.turnOff));
+            return { repair };
+        },
+    };
+}
+
+// --- Constraint Definitions ---
+export const SETTINGS_CONSTRAINTS: SettingsConstraint[] = [
+    requires({
+        id: "volume-requires-notifications",
+        description: "Raising notificationVolume implies enabling notifications (notificationsEnabled=true).",
+        when: (proposed, previous) => proposed.notificationVolume > previous.notificationVolume,
+        then: { notificationsEnabled: true },
+    }),
+    requires({
+        id: "notifications-require-audible-volume",
+        description: "Enabling notifications that were disabled requires a notificationVolume above 0.0, otherwise it is set to 0.5.",
+        when: (proposed, previous) => proposed.notificationsEnabled && !previous.notificationsEnabled && proposed.notificationVolume === 0,
+        then: { notificationVolume: 0.5 },
+    }),
+    conflicts({
+        id: "reduce-motion-conflicts-with-autoplay",
+        description: "reduceMotion=true conflicts with autoPlayVideos=true; the setting that was just turned on wins.",
+        modes: [
+            { name: "reduceMotion", isActive: s => s.reduceMotion, turnOff: { reduceMotion: false } },
+            { name: "autoPlayVideos", isActive: s => s.autoPlayVideos, turnOff: { autoPlayVideos: false } },
+        ],
+    }),
+    exclusive({
+        id: "single-color-palette",
+        description: "Only one color palette mode can be active: highContrast=true or a colorBlindMode other than 'none'; the mode that was just turned on wins.",
+        modes: [
+            { name: "highContrast", isActive: s => s.highContrast, turnOff: { highContrast: false } },
+            { name: "colorBlindMode", isActive: s => s.colorBlindMode !== "none", turnOff: { colorBlindMode: "none" } },
+        ],
+    }),
+];
+
+/**
+ * Describes the constraints as a bullet list for prompts.
+ */
+export function describeConstraints(constraints: SettingsConstraint[] = SETTINGS_CONSTRAINTS): string {
+    return constraints.map(c => `- ${c.description}`).join('\n');
+}
+
+/**
+ * Checks the proposed settings against every constraint, repairing violations where
+ * possible. Repairs can trigger other constraints, so the checks are repeated until all
+ * of them hold. If any constraint rejects the proposal the previous settings are kept.
+ */
+export function enforceConstraints(
+    proposed: AppSettings,
+    previous: AppSettings,
+    constraints: SettingsConstraint[] = SETTINGS_CONSTRAINTS
+): ConstraintResult {
+    let settings = { ...proposed };
+    const violations: ConstraintViolation[] = [];
+    const maxPasses = constraints.length + 1;
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+        let repairedInPass = false;
+        for (const constraint of constraints) {
+            const check = constraint.check(settings, previous);
+            if (!check) continue;
+            if ("reject" in check) {
+                violations.push({ constraintId: constraint.id, description: constraint.description, action: "rejected", detail: check.reject });
+                return { settings: previous, violations, rejected: true };
+            }
+            const detail = SETTING_KEYS
+                .filter(key => key in check.repair)
+                .map(key => `${key}: ${JSON.stringify(settings[key])} → ${JSON.stringify(check.repair[key])}`)
+                .join(', ');
+            settings = { ...settings, ...check.repair };
+            violations.push({ constraintId: constraint.id, description: constraint.description, action: "repaired", detail, repairedValues: check.repair });
+            repairedInPass = true;
+        }
+        if (!repairedInPass) {
+            return { settings, violations, rejected: false };
+        }
+    }
+
+    // The repairs keep undoing each other, the constraints themselves are inconsistent
+    violations.push({ constraintId: "unresolved", description: "Constraints could not be satisfied together.", action: "rejected", detail: "Repairs did not converge." });
+    return { settings: previous, violations, rejected: true };
+}
@@ -0,0 +1,307 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { AppSettings, SETTING_KEYS } from './settings';
+
+// --- Interfaces and Types ---
+interface Palette {
+    background: string;
+    surface: string;
+    text: string;
+    mutedText: string;
+    accent: string;
+    error: string;
+    success: string;
+}
+
+// Platform independent values the settings translate to. Every export format is rendered from these.
+export interface DesignTokens {
+    colors: Palette;
+    fontSizePx: number; // Body text size, 16px scaled by fontSizeFactor
+    lineHeight: number; // Body line height, 1.5 scaled by lineSpacing
+    animationDurationMs: number;
+    autoPlayVideos: boolean;
+    notificationVolume: number; // 0 when notifications are disabled
+    speechRate: number;
+}
+
+export interface ExportedFile {
+    format: string;
+    filePath: string;
+}
+
+// --- Palettes ---
+const BASE_FONT_SIZE_PX = 16;
+const BASE_LINE_HEIGHT = 1.5;
+const BASE_ANIMATION_DURATION_MS = 200;
+
+const PALETTES: Record<"light" | "dark" | "lightHighContrast" | "darkHighContrast", Palette> = {
+    light: { background: "#FFFFFF", surface: "#F1F3F4", text: "#1F1F1F", mutedText: "#5F6368", accent: "#1A73E8", error: "#D93025", success: "#188038" },
+    dark: { background: "#121212", surface: "#202124", text: "#E8EAED", mutedText: "#9AA0A6", accent: "#8AB4F8", error: "#F28B82", success: "#81C995" },
+    lightHighContrast: { background: "#FFFFFF", surface: "#FFFFFF", text: "#000000", mutedText: "#1F1F1F", accent: "#0000CC", error: "#B00000", success: "#005A00" },
+    darkHighContrast: { background: "#000000", surface: "#000000", text: "#FFFFFF", mutedText: "#F1F1F1", accent: "#FFFF00", error: "#FF8080", success: "#80FF80" },
+};
+
+// Status colors that stay distinguishable for each color vision deficiency (Okabe-Ito palette)
+const COLOR_BLIND_OVERRIDES: Record<AppSettings["colorBlindMode"], Partial<Palette>> = {
+    none: {},
+    protanopia: { error: "#D55E00", success: "#0072B2" },
+    deuteranopia: { error: "#D55E00", success: "#0072B2" },
+    tritanopia: { accent: "#CC79A7", error: "#D55E00", success: "#009E73" },
+};
+
+function selectPalette(darkMode: boolean, highContrast: boolean): Palette {
+    if (highContrast) return darkMode ? PALETTES.darkHighContrast : PALETTES.lightHighContrast;
+    return darkMode ? PALETTES.dark : PALETTES.light;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Translates the settings into the values a UI actually uses (colors, sizes, durations).
+ */
+export function deriveDesignTokens(settings: AppSettings): DesignTokens {
+    return {
+        colors: { ...selectPalette(settings.darkMode, settings.highContrast), ...COLOR_BLIND_OVERRIDES[settings.colorBlindMode] },
+        fontSizePx: round(BASE_FONT_SIZE_PX * settings.fontSizeFactor),
+        lineHeight: round(BASE_LINE_HEIGHT * settings.lineSpacing),
+        animationDurationMs: settings.reduceMotion ? 0 : BASE_ANIMATION_DURATION_MS,
+        autoPlayVideos: settings.autoPlayVideos,
+        notificationVolume: settings.notificationsEnabled ? settings.notificationVolume : 0,
+        speechRate: settings.textToSpeechRate,
+    };
+}
+
+// "fontSizeFactor" -> "font-size-factor" (CSS) or "font_size_factor" (Android)
+function splitCamelCase(name: string, separator: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, `$1${separator}$2`).toLowerCase();
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// --- CSS ---
+function cssColorProperties(colors: Palette, indent: string): string[] {
+    return (Object.keys(colors) as (keyof Palette)[])
+        .map(name => `${indent}--app-color-${splitCamelCase(name, '-')}: ${colors[name]};`);
+}
+
+/**
+ * CSS custom properties on :root. The operating system preferences (prefers-reduced-motion and
+ * prefers-contrast) are honored even when the matching app setting is off.
+ */
+export function toCss(settings: AppSettings): string {
+    const tokens = deriveDesignTokens(settings);
+    const settingProperties = SETTING_KEYS.map(key => {
+        const value = settings[key];
+        const cssValue = typeof value === "boolean" ? (value ? 1 : 0) : typeof value === "string" ? `"${value}"` : value;
+        return `    --app-${splitCamelCase(key, '-')}: ${cssValue};`;
+    });
+    const lines = [
+        "/* Generated from the adjustable-settings AppSettings. Do not edit by hand. */",
+        ":root {",
+        `    color-scheme: ${settings.darkMode ? "dark" : "light"};`,
+        ...settingProperties,
+        ...cssColorProperties(tokens.colors, "    "),
+        `    --app-font-size: ${tokens.fontSizePx}px;`,
+        `    --app-line-height: ${tokens.lineHeight};`,
+        `    --app-animation-duration: ${tokens.animationDurationMs}ms;`,
+        "}",
+        "",
+        "@media (prefers-reduced-motion: reduce) {",
+        "    :root {",
+        "        --app-reduce-motion: 1;",
+        "        --app-auto-play-videos: 0;",
+        "        --app-animation-duration: 0ms;",
+        "    }",
+        "}",
+    ];
+    if (!settings.highContrast) {
+        const highContrastColors = { ...selectPalette(settings.darkMode, true), ...COLOR_BLIND_OVERRIDES[settings.colorBlindMode] };
+        lines.push(
+            "",
+            "@media (prefers-contrast: more) {",
+            "    :root {",
+            "        --app-high-contrast: 1;",
+            ...cssColorProperties(highContrastColors, "        "),
+            "    }",
+            "}",
+        );
+    }
+    return lines.join('\n') + '\n';
+}
+
+// --- Android ---
+/**
+ * Android `values` resource (res/values/accessibility_settings.xml).
+ */
+export function toAndroidValuesXml(settings: AppSettings): string {
+    const tokens = deriveDesignTokens(settings);
+    const items = SETTING_KEYS.map(key => {
+        const name = splitCamelCase(key, '_');
+        const value = settings[key];
+        switch (typeof value) {
+            case "boolean":
+                return `    <bool name="${name}">${value}</bool>`;
+            case "number":
+                return `    <item name="${name}" format="float" type="dimen">${value}</item>`;
+            default:
+                return `    <string name="${name}" translatable="false">${escapeXml(String(value))}</string>`;
+        }
+    });
+    const colors = (Object.keys(tokens.colors) as (keyof Palette)[])
+        .map(name => `    <color name="app_${splitCamelCase(name, '_')}">${tokens.colors[name]}</color>`);
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        "<!-- Generated from the adjustable-settings AppSettings. Do not edit by hand. -->",
+        "<resources>",
+        ...items,
+        ...colors,
+        `    <dimen name="app_text_size_body">${tokens.fontSizePx}sp</dimen>`,
+        `    <item name="app_line_spacing_multiplier" format="float" type="dimen">${tokens.lineHeight}</item>`,
+        `    <integer name="app_animation_duration_ms">${tokens.animationDurationMs}</integer>`,
+        "</resources>",
+    ].join('\n') + '\n';
+}
+
+// --- iOS ---
+/**
+ * Flat dictionary used by both iOS formats: the settings plus the derived tokens.
+ */
+function iosDictionary(settings: AppSettings): Record<string, boolean | number | string> {
+    const tokens = deriveDesignTokens(settings);
+    const colors = Object.fromEntries(
+        (Object.keys(tokens.colors) as (keyof Palette)[]).map(name => [`color${name[0].toUpperCase()}${name.slice(1)}`, tokens.colors[name]])
+    );
+    return {
+        ...settings,
+        ...colors,
+        bodyFontSizePt: tokens.fontSizePx,
+        lineHeightMultiple: tokens.lineHeight,
+        animationDuration: tokens.animationDurationMs / 1000, // TimeInterval, in seconds
+    };
+}
+
+function plistValue(value: boolean | number | string): string {
+    if (typeof value === "boolean") return value ? "<true/>" : "<false/>";
+    if (typeof value === "number") return `<real>${value}</real>`; // All numeric settings are factors, even when whole
+    return `<string>${escapeXml(value)}</string>`;
+}
+
+/**
+ * iOS property list (AppSettings.plist).
+ */
+export function toIosPlist(settings: AppSettings): string {
+    const entries = Object.entries(iosDictionary(settings))
+        .map(([key, value]) => `    <key>${key}</key>\n    ${plistValue(value)}`);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+        '<plist version="1.0">',
+        "<dict>",
+        ...entries,
+        "</dict>",
+        "</plist>",
+    ].join('\n') + '\n';
+}
+
+/**
+ * Same content as the plist, as JSON (AppSettings.json).
+ */
+export function toIosJson(settings: AppSettings): string {
+    return JSON.stringify(iosDictionary(settings), null, 2) + '\n';
+}
+
+// --- HTML Preview ---
+/**
+ * Self-contained page that shows sample UI styled with the exported CSS, to check what a
+ * change like "make text bigger" actually looks like.
+ */
+export function renderPreviewHtml(settings: AppSettings): string {
+    const tokens = deriveDesignTokens(settings);
+    const settingRows = SETTING_KEYS
+        .map(key => `            <tr><td>${key}</td><td>${escapeXml(JSON.stringify(settings[key]))}</td></tr>`)
+        .join('\n');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Adjustable Settings Preview</title>
+    <style>
+${toCss(settings)}
+        body {
+            margin: 0;
+            padding: 2rem;
+            background: var(--app-color-background);
+            color: var(--app-color-text);
+            font-family: system-ui, sans-serif;
+            font-size: var(--app-font-size);
+            line-height: var(--app-line-height);
+        }
+        main { max-width: 40rem; }
+        .card { background: var(--app-color-surface); padding: 1rem; border: 1px solid var(--app-color-muted-text); border-radius: 8px; margin-bottom: 1rem; }
+        .muted { color: var(--app-color-muted-text); }
+        a { color: var(--app-color-accent); }
+        button { font: inherit; padding: 0.5em 1em; border: 2px solid var(--app-color-accent); border-radius: 6px; background: var(--app-color-accent); color: var(--app-color-background); transition: transform var(--app-animation-duration); }
+        button:hover { transform: scale(1.05); }
+        .error { color: var(--app-color-error); }
+        .success { color: var(--app-color-success); }
+        .spinner { display: inline-block; width: 1em; height: 1em; border: 3px solid var(--app-color-muted-text); border-top-color: var(--app-color-accent); border-radius: 50%; animation: spin calc(var(--app-animation-duration) * 5) linear infinite; }
+        @keyframes spin { to { transform: rotate(360deg); } }
+        table { border-collapse: collapse; }
+        td { padding: 0.25em 1em 0.25em 0; border-bottom: 1px solid var(--app-color-muted-text); }
+    </style>
+</head>
+<body>
+<main>
+    <h1>Settings Preview</h1>
+    <div class="card">
+        <p>This paragraph uses the body text size (${tokens.fontSizePx}px) and line height (${tokens.lineHeight}). Long text should be comfortable to read and easy to follow from one line to the next.</p>
+        <p class="muted">Secondary text, e.g. timestamps and hints.</p>
+        <p><a href="#">A sample link</a></p>
+        <p><button type="button">Primary action</button></p>
+    </div>
+    <div class="card">
+        <p class="success">&#10004; Saved successfully</p>
+        <p class="error">&#10006; Something went wrong</p>
+    </div>
+    <div class="card">
+        <p><span class="spinner"></span> Loading animation (${tokens.animationDurationMs === 0 ? "motion reduced" : `${tokens.animationDurationMs}ms transitions`})</p>
+        <p>Videos: ${tokens.autoPlayVideos ? "play automatically" : "play only when clicked"}</p>
+        <p>Notification sounds: ${tokens.notificationVolume === 0 ? "muted" : `${Math.round(tokens.notificationVolume * 100)}% volume`}</p>
+        <p>Screen reader speed: ${tokens.speechRate}x</p>
+    </div>
+    <h2>Current Settings</h2>
+    <table>
+        <tbody>
+${settingRows}
+        </tbody>
+    </table>
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes every export format to the output directory and returns the paths of the written files.
+ */
+export async function exportSettings(settings: AppSettings, outputDir: string): Promise<ExportedFile[]> {
+    const files: Array<{ format: string, relativePath: string, content: string }> = [
+        { format: "CSS custom properties", relativePath: "settings.css", content: toCss(settings) },
+        { format: "Android values resource", relativePath: path.join("android", "values", "accessibility_settings.xml"), content: toAndroidValuesXml(settings) },
+        { format: "iOS property list", relativePath: path.join("ios", "AppSettings.plist"), content: toIosPlist(settings) },
+        { format: "iOS JSON", relativePath: path.join("ios", "AppSettings.json"), content: toIosJson(settings) },
+        { format: "HTML preview", relativePath: "preview.html", content: renderPreviewHtml(settings) },
+    ];
+    const exported: ExportedFile[] = [];
+    for (const file of files) {
+        const filePath = path.join(outputDir, file.relativePath);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, file.content, 'utf-8');
+        exported.push({ format: file.format, filePath });
+    }
+    return exported;
+}
@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFileAtomic } from './jsonFile';
+import { AppSettings, SETTING_KEYS, setSetting } from './settings';
+import { DEFAULT_PROFILE } from './settingsStore';
+
+// --- Interfaces and Types ---
+export interface SettingChange {
+    key: keyof AppSettings;
+    oldValue: AppSettings[keyof AppSettings];
+    newValue: AppSettings[keyof AppSettings];
+    reason: string;
+}
+
+// A group of changes applied together in response to a single user request.
+export interface Changeset {
+    id: string;
+    appliedAt: string; // ISO 8601 timestamp
+    userRequest: string;
+    changes: SettingChange[];
+}
+
+interface ProfileHistory {
+    undoStack: Changeset[];
+    redoStack: Changeset[];
+}
+
+// Each user profile has its own undo/redo stacks
+interface StoredHistoryFile {
+    profiles: Record<string, ProfileHistory>;
+}
+
+/**
+ * Compares two settings objects and returns one change per key that differs.
+ * `reasons` holds the model's explanation for each changed key, if any.
+ */
+export function diffSettings(
+    before: AppSettings,
+    after: AppSettings,
+    reasons: Partial<Record<keyof AppSettings, string>> = {}
+): SettingChange[] {
+    return SETTING_KEYS
+        .filter(key => before[key] !== after[key])
+        .map(key => ({ key, oldValue: before[key], newValue: after[key], reason: reasons[key] ?? "" }));
+}
+
+/**
+ * Formats changes as one "key: old → new (reason)" line per setting.
+ */
+export function formatChanges(changes: SettingChange[]): string {
+    if (changes.length === 0) return "  (no changes)";
+    return changes.map(c => {
+        const reason = c.reason ? ` (${c.reason})` : "";
+        return `  ${c.key}: ${JSON.stringify(c.oldValue)} → ${JSON.stringify(c.newValue)}${reason}`;
+    }).join('\n');
+}
+
+/**
+ * Applies the changes on top of the given settings, either forwards (new values)
+ * or backwards (old values, used to revert a changeset).
+ */
+export function applyChanges(settings: AppSettings, changes: SettingChange[], direction: "forward" | "backward"): AppSettings {
+    const updated = { ...settings };
+    for (const change of changes) {
+        setSetting(updated, change.key, direction === "forward" ? change.newValue : change.oldValue);
+    }
+    return updated;
+}
+
+/**
+ * Undo/redo stacks of applied changesets, persisted to a JSON file so changes can be
+ * reverted across restarts (e.g. "go back to how it was yesterday").
+ * The stacks belong to the profile selected with useProfile().
+ */
+export class SettingsHistory {
+    // Without a prototype, like the profiles of the settings store
+    private profiles: Record<string, ProfileHistory> = Object.create(null);
+    private profileName = DEFAULT_PROFILE;
+
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<void> {
+        const data: any = await readJsonFile(this.filePath);
+        // Files written before profiles existed only hold the stacks of the default profile
+        this.profiles = Object.assign(Object.create(null), data?.profiles ?? (data ? { [DEFAULT_PROFILE]: data } : {}));
+    }
+
+    useProfile(profileName: string): void {
+        this.profileName = profileName;
+    }
+
+    private current(): ProfileHistory {
+        this.profiles[this.profileName] ??= { undoStack: [], redoStack: [] };
+        return this.profiles[this.profileName];
+    }
+
+    /**
+     * Records a newly applied set of changes. Any undone changesets can no longer be redone.
+     */
+    async record(userRequest: string, changes: SettingChange[]): Promise<Changeset> {
+        const changeset: Changeset = {
+            id: randomUUID(),
+            appliedAt: new Date().toISOString(),
+            userRequest,
+            changes,
+        };
+        const history = this.current();
+        history.undoStack.push(changeset);
+        history.redoStack = [];
+        await this.save();
+        return changeset;
+    }
+
+    /**
+     * Pops up to `steps` changesets from the undo stack, most recent first.
+     * The caller is responsible for reverting them with applyChanges(..., "backward").
+     */
+    async undo(steps = 1): Promise<Changeset[]> {
+        const { undoStack, redoStack } = this.current();
+        const undone: Changeset[] = [];
+        while (undone.length < steps && undoStack.length > 0) {
+            const changeset = undoStack.pop()!;
+            redoStack.push(changeset);
+            undone.push(changeset);
+        }
+        await this.save();
+        return undone;
+    }
+
+    /**
+     * Pops up to `steps` changesets from the redo stack, oldest first.
+     * The caller is responsible for re-applying them with applyChanges(..., "forward").
+     */
+    async redo(steps = 1): Promise<Changeset[]> {
+        const { undoStack, redoStack } = this.current();
+        const redone: Changeset[] = [];
+        while (redone.length < steps && redoStack.length > 0) {
+            const changeset = redoStack.pop()!;
+            undoStack.push(changeset);
+            redone.push(changeset);
+        }
+        await this.save();
+        return redone;
+    }
+
+    /**
+     * Undoes every changeset applied after the given point in time, most recent first.
+     */
+    async undoSince(timestamp: Date): Promise<Changeset[]> {
+        const count = this.current().undoStack.filter(c => new Date(c.appliedAt) > timestamp).length;
+        return this.undo(count);
+    }
+
+    /**
+     * The most recently applied changesets, most recent first.
+     */
+    recent(limit = 10): Changeset[] {
+        return this.current().undoStack.slice(-limit).reverse();
+    }
+
+    private async save(): Promise<void> {
+        const file: StoredHistoryFile = { profiles: this.profiles };
+        await writeJsonFileAtomic(this.filePath, file);
+    }
+}
@@ -0,0 +1,201 @@
+import { readJsonFile, writeJsonFileAtomic } from './jsonFile';
+import { AppSettings, DEFAULT_APP_SETTINGS, SETTING_KEYS, isValidSettingValue, setSetting } from './settings';
+
+// --- Schema Versioning ---
+// Bump this whenever the shape of the stored file changes and add a migration below.
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+export const DEFAULT_PROFILE = "default";
+
+// On-disk representation of the settings file: one set of settings per user profile.
+interface StoredSettingsFile {
+    schemaVersion: number;
+    updatedAt: string;
+    activeProfile: string;
+    profiles: Record<string, AppSettings>;
+}
+
+interface Migration {
+    fromVersion: number;
+    description: string;
+    migrate: (data: any) => any;
+}
+
+// Each migration upgrades the raw file contents from `fromVersion` to `fromVersion + 1`.
+// Settings that are added to or removed from SETTINGS_REGISTRY don't need a migration, they are
+// handled by reconcileSettings() on every load.
+const MIGRATIONS: Migration[] = [
+    {
+        fromVersion: 0,
+        description: "Wrap the legacy flat AppSettings object in a versioned envelope.",
+        migrate: (data) => ({ schemaVersion: 1, updatedAt: new Date().toISOString(), settings: data })
+    },
+    {
+        fromVersion: 1,
+        description: "Move the settings into the default user profile.",
+        migrate: (data) => ({
+            schemaVersion: 2,
+            updatedAt: data.updatedAt,
+            activeProfile: DEFAULT_PROFILE,
+            profiles: { [DEFAULT_PROFILE]: data.settings ?? {} }
+        })
+    },
+];
+
+/**
+ * Makes sure a settings object has exactly the keys of AppSettings:
+ * missing (or wrongly typed) keys get their default value and unknown keys are dropped.
+ */
+function reconcileSettings(raw: Record<string, unknown>): { settings: AppSettings, added: string[], removed: string[] } {
+    const settings = { ...DEFAULT_APP_SETTINGS };
+    const added: string[] = [];
+    for (const key of SETTING_KEYS) {
+        const value = raw[key];
+        if (isValidSettingValue(key, value)) {
+            setSetting(settings, key, value);
+        } else {
+            added.push(key);
+        }
+    }
+    const removed = Object.keys(raw).filter(key => !(key in DEFAULT_APP_SETTINGS));
+    return { settings, added, removed };
+}
+
+/**
+ * Profile names come from the user, so the profiles are kept in an object without a prototype:
+ * "constructor" or "toString" are then ordinary names instead of inherited members.
+ */
+function emptyProfiles(): Record<string, AppSettings> {
+    return Object.create(null);
+}
+
+function emptySettingsFile(): StoredSettingsFile {
+    const profiles = emptyProfiles();
+    profiles[DEFAULT_PROFILE] = { ...DEFAULT_APP_SETTINGS };
+    return {
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        updatedAt: new Date().toISOString(),
+        activeProfile: DEFAULT_PROFILE,
+        profiles,
+    };
+}
+
+/**
+ * File-backed JSON store for the application settings of one or more user profiles.
+ * Writes are atomic.
+ */
+export class SettingsStore {
+    constructor(private readonly filePath: string) {}
+
+    /**
+     * Reads the settings of the active profile.
+     * Returns the defaults when nothing has been stored yet or the file can't be parsed.
+     */
+    async load(): Promise<AppSettings> {
+        const file = await this.readFile();
+        return { ...file.profiles[file.activeProfile] };
+    }
+
+    /**
+     * Commits the proposed settings to the active profile and returns the settings that were stored.
+     */
+    async apply(proposedSettings: AppSettings): Promise<AppSettings> {
+        const file = await this.readFile();
+        const { settings } = reconcileSettings(proposedSettings as unknown as Record<string, unknown>);
+        file.profiles[file.activeProfile] = settings;
+        await this.write(file);
+        console.log(`Settings of profile "${file.activeProfile}" saved to ${this.filePath}`);
+        return settings;
+    }
+
+    async getActiveProfile(): Promise<string> {
+        return (await this.readFile()).activeProfile;
+    }
+
+    async listProfiles(): Promise<{ activeProfile: string, profiles: string[] }> {
+        const file = await this.readFile();
+        return { activeProfile: file.activeProfile, profiles: Object.keys(file.profiles) };
+    }
+
+    /**
+     * Makes the given profile the active one, creating it with the default settings if needed.
+     * Returns the settings of the newly active profile.
+     */
+    async switchProfile(profileName: string): Promise<{ settings: AppSettings, created: boolean }> {
+        const name = profileName.trim();
+        if (name.length === 0) {
+            throw new Error("Profile name cannot be empty.");
+        }
+        const file = await this.readFile();
+        const created = !(name in file.profiles);
+        if (created) {
+            file.profiles[name] = { ...DEFAULT_APP_SETTINGS };
+        }
+        file.activeProfile = name;
+        await this.write(file);
+        console.log(`Switched to ${created ? "new " : ""}profile "${name}"`);
+        return { settings: { ...file.profiles[name] }, created };
+    }
+
+    /**
+     * Reads the whole settings file, migrating and reconciling older files on the way.
+     */
+    private async readFile(): Promise<StoredSettingsFile> {
+        let data: any;
+        try {
+            data = await readJsonFile(this.filePath);
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) throw error;
+            console.error(`Error parsing settings file ${this.filePath}:`, error);
+            console.log("Using default settings.");
+            return emptySettingsFile();
+        }
+        if (data === null) {
+            return emptySettingsFile();
+        }
+
+        let version: number = typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+        if (version > SETTINGS_SCHEMA_VERSION) {
+            throw new Error(`Settings file ${this.filePath} has schema version ${version}, newer than the supported version ${SETTINGS_SCHEMA_VERSION}.`);
+        }
+        let changed = version < SETTINGS_SCHEMA_VERSION;
+        while (version < SETTINGS_SCHEMA_VERSION) {
+            const migration = MIGRATIONS.find(m => m.fromVersion === version);
+            if (!migration) {
+                throw new Error(`No migration available from settings schema version ${version}.`);
+            }
+            console.log(`Migrating settings from schema version ${version}: ${migration.description}`);
+            data = migration.migrate(data);
+            version++;
+        }
+
+        const file: StoredSettingsFile = {
+            schemaVersion: SETTINGS_SCHEMA_VERSION,
+            updatedAt: data.updatedAt,
+            activeProfile: data.activeProfile ?? DEFAULT_PROFILE,
+            profiles: emptyProfiles(),
+        };
+        for (const [profileName, rawSettings] of Object.entries<Record<string, unknown>>(data.profiles ?? {})) {
+            const { settings, added, removed } = reconcileSettings(rawSettings ?? {});
+            if (added.length > 0) console.log(`Using defaults for new settings in profile "${profileName}": ${added.join(', ')}`);
+            if (removed.length > 0) console.log(`Dropping unknown settings in profile "${profileName}": ${removed.join(', ')}`);
+            changed = changed || added.length > 0 || removed.length > 0;
+            file.profiles[profileName] = settings;
+        }
+        if (!(file.activeProfile in file.profiles)) {
+            file.profiles[file.activeProfile] = { ...DEFAULT_APP_SETTINGS };
+            changed = true;
+        }
+
+        // Persist the upgraded file so the migration only happens once
+        if (changed) {
+            await this.write(file);
+        }
+        return file;
+    }
+
+    private async write(file: StoredSettingsFile): Promise<void> {
+        file.updatedAt = new Date().toISOString();
+        await writeJsonFileAtomic(this.filePath, file);
+    }
+}
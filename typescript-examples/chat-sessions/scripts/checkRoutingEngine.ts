@@ -0,0 +1,134 @@
+// Offline tests of the routing engine behind find_route, on the bundled Seattle Center map and on
+// small maps built here. Checks concrete routes, detours, blocking constraints, unknown places and
+// that routes only pass through junctions. Exits with code 1 when a check fails.
+// Run with: npm test
+import { RouteConstraints } from '../../shared/routeRequest';
+import { GraphNode, RouteGraph, loadRouteGraph } from '../src/routeGraph';
+import { RouteResult, findAccessibleRoute } from '../src/routingEngine';
+
+const FULL_CONSTRAINTS: RouteConstraints = { avoidStairs: true, maxGradientPercent: 5, requireCurbCuts: true, surface: "smooth" };
+
+let failures = 0;
+
+function check(label: string, passed: boolean, detail: string) {
+    if (passed) {
+        console.log(`PASS ${label}`);
+    } else {
+        failures++;
+        console.error(`FAIL ${label}: ${detail}`);
+    }
+}
+
+const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected);
+
+// Names of the paths a route takes, from its steps, e.g. "Monorail promenade"
+function pathNames(route: RouteResult): string[] {
+    return route.steps.map(step => step.instruction.match(/ (?:on|onto) (.+)$/)?.[1]).filter((name): name is string => !!name);
+}
+
+function checkConstrainedRoute(graph: RouteGraph) {
+    const route = findAccessibleRoute(graph, "MoPOP", "Pacific Science Center", FULL_CONSTRAINTS);
+    check("MoPOP to Pacific Science Center with all constraints is found", route.found, route.message);
+    check("it is 565 m long", route.totalDistanceMeters === 565, `got ${route.totalDistanceMeters} m`);
+    check("it takes the Monorail promenade and the Armory ramps",
+        same(pathNames(route), ["MoPOP entrance", "Monorail promenade", "Armory east walk", "Armory south ramp", "Science Center entrance"]),
+        `got ${pathNames(route).join(', ')}`);
+    const detours = Object.fromEntries(route.detours.map(d => [d.constraint, d.extraMeters]));
+    check("each of the four constraints forced a detour",
+        same(detours, { avoidStairs: 154, maxGradientPercent: 159, requireCurbCuts: 78, surface: 66 }),
+        `got ${JSON.stringify(detours)}`);
+    check("the stairs detour says what it avoids",
+        route.detours.find(d => d.constraint === "avoidStairs")?.avoided.includes("stairs on Needle south steps") === true,
+        JSON.stringify(route.detours));
+}
+
+function checkUnconstrainedRoute(graph: RouteGraph) {
+    const route = findAccessibleRoute(graph, "Near Museum of Pop Culture (MoPOP), Seattle", "pacific science center", {});
+    check("places are matched within the text and case-insensitively",
+        route.origin === "Museum of Pop Culture (MoPOP)" && route.destination === "Pacific Science Center",
+        `got ${route.origin} to ${route.destination}`);
+    check("without constraints the route is shorter and has no detours",
+        route.found && route.totalDistanceMeters < 565 && route.detours.length === 0,
+        route.message);
+}
+
+function checkBlockingConstraints(graph: RouteGraph) {
+    const route = findAccessibleRoute(graph, "Space Needle", "Pacific Science Center", { avoidStairs: true, maxGradientPercent: 2, requireCurbCuts: true });
+    check("Space Needle to Pacific Science Center with a 2% limit is not found", !route.found, route.message);
+    check("each of the three constraints blocks it on its own",
+        same(route.blockingConstraints, [["avoidStairs"], ["maxGradientPercent"], ["requireCurbCuts"]]),
+        `got ${JSON.stringify(route.blockingConstraints)}`);
+}
+
+function checkUnknownPlaces(graph: RouteGraph) {
+    const route = findAccessibleRoute(graph, "Pike Place Market", "Space Needle", {});
+    check("an unknown origin is reported with the known places",
+        !route.found && route.origin === null && route.destination === "Space Needle"
+            && route.message.includes(`origin "Pike Place Market"`) && route.message.includes("Pacific Science Center"),
+        route.message);
+    const both = findAccessibleRoute(graph, "Pike Place Market", "the moon", {});
+    check("unknown origin and destination are both reported",
+        !both.found && both.message.includes(`origin "Pike Place Market" and destination "the moon"`),
+        both.message);
+}
+
+/**
+ * Every route between two places of the map only enters the origin and the destination.
+ */
+function checkJunctionsOnly(graph: RouteGraph) {
+    const places = graph.nodes.filter(n => n.kind === "place");
+    const violations: string[] = [];
+    for (const origin of places) {
+        for (const destination of places.filter(p => p !== origin)) {
+            const route = findAccessibleRoute(graph, origin.name, destination.name, {});
+            if (!route.found) {
+                violations.push(`no route from ${origin.name} to ${destination.name}`);
+                continue;
+            }
+            for (const name of pathNames(route)) {
+                const visited = graph.edges.filter(e => e.name === name).flatMap(e => [e.from, e.to])
+                    .map(id => graph.nodes.find(n => n.id === id) as GraphNode)
+                    .filter(node => node.kind === "place" && node !== origin && node !== destination);
+                if (visited.length > 0) violations.push(`${origin.name} to ${destination.name} passes ${visited.map(n => n.name).join(', ')} on ${name}`);
+            }
+        }
+    }
+    check(`routes between all ${places.length} places only pass through junctions`, violations.length === 0, violations.join('; '));
+}
+
+/**
+ * A small map where the shortest way leads through a venue: the route must go around it.
+ */
+function checkVenueShortcut() {
+    const node = (id: string, kind: GraphNode["kind"]): GraphNode => ({ id, name: id, kind, lat: 47.62, lon: -122.35 });
+    const edge = (from: string, to: string, lengthMeters: number) =>
+        ({ from, to, name: `${from}-${to}`, lengthMeters, gradientPercent: 0, surface: "smooth" as const, stairs: false });
+    const graph: RouteGraph = {
+        name: "Shortcut",
+        nodes: [node("Start", "place"), node("Hall", "place"), node("End", "place"), node("gate", "junction")],
+        edges: [edge("Start", "Hall", 10), edge("Hall", "End", 10), edge("Start", "gate", 50), edge("gate", "End", 50)],
+    };
+    const route = findAccessibleRoute(graph, "Start", "End", {});
+    check("a route goes around a venue instead of through it",
+        route.found && route.totalDistanceMeters === 100 && !pathNames(route).some(name => name.includes("Hall")),
+        route.message);
+    const toHall = findAccessibleRoute(graph, "Start", "Hall", {});
+    check("the venue can still be the destination", toHall.found && toHall.totalDistanceMeters === 10, toHall.message);
+}
+
+async function main() {
+    const graph = await loadRouteGraph();
+    checkConstrainedRoute(graph);
+    checkUnconstrainedRoute(graph);
+    checkBlockingConstraints(graph);
+    checkUnknownPlaces(graph);
+    checkJunctionsOnly(graph);
+    checkVenueShortcut();
+    console.log(failures === 0 ? "\nAll routing checks passed" : `\n${failures} routing check(s) failed`);
+    if (failures > 0) process.exit(1);
+}
+
+main().catch(error => {
+    console.error("Unhandled error during execution:", error.message ?? error);
+    process.exit(1);
+});
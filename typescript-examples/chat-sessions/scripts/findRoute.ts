@@ -0,0 +1,60 @@
+// Runs the local routing engine behind find_route without the chat or an API key, e.g. to try a
+// map change. Exits with code 1 when no route is found.
+// Run with: npm run route -- --from MoPOP --to "Pacific Science Center" --avoid-stairs --max-gradient 5 --curb-cuts --surface smooth
+import { RouteConstraints, SURFACE_PREFERENCES, SurfacePreference } from '../../shared/routeRequest';
+import { DEFAULT_ROUTE_GRAPH_PATH, loadRouteGraph } from '../src/routeGraph';
+import { findAccessibleRoute, formatRoute } from '../src/routingEngine';
+
+const USAGE = `Usage: npm run route -- --from <place> --to <place> [--max-gradient <percent>] [--avoid-stairs] [--curb-cuts] [--surface ${SURFACE_PREFERENCES.join('|')}] [--graph <file>] [--json]`;
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    let from: string | undefined;
+    let to: string | undefined;
+    let graphPath = DEFAULT_ROUTE_GRAPH_PATH;
+    let json = false;
+    const constraints: RouteConstraints = {};
+    for (let i = 0; i < args.length; i++) {
+        const value = args[i + 1];
+        switch (args[i]) {
+            case "--from": from = value; i++; break;
+            case "--to": to = value; i++; break;
+            case "--graph": graphPath = value ?? fail("Missing value after --graph."); i++; break;
+            case "--avoid-stairs": constraints.avoidStairs = true; break;
+            case "--curb-cuts": constraints.requireCurbCuts = true; break;
+            case "--json": json = true; break;
+            case "--max-gradient":
+                constraints.maxGradientPercent = Number(value);
+                if (!(constraints.maxGradientPercent >= 0)) fail("--max-gradient must be a number of percent.");
+                i++;
+                break;
+            case "--surface":
+                if (!SURFACE_PREFERENCES.includes(value as SurfacePreference)) fail(`--surface must be one of ${SURFACE_PREFERENCES.join(', ')}.`);
+                constraints.surface = value as SurfacePreference;
+                i++;
+                break;
+            default:
+                fail(`Invalid argument: ${args[i]}`);
+        }
+    }
+    if (!from || !to) fail("Both --from and --to are required.");
+
+    const route = findAccessibleRoute(await loadRouteGraph(graphPath), from, to, constraints);
+    if (json) {
+        console.log(JSON.stringify(route, null, 2));
+    } else {
+        formatRoute(route).forEach(line => console.log(line));
+    }
+    if (!route.found) process.exit(1);
+}
+
+main().catch(error => {
+    console.error(error.message ?? error);
+    process.exit(1);
+});
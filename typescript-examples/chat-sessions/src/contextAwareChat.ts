@@ -0,0 +1,140 @@
+import {
+    ChatSession,
+    Content,
+    GenerateContentResult,
+    GoogleGenerativeAI,
+    ModelParams,
+    Part
+} from "@google/generative-ai";
+import { ContextProviders, ContextSnapshot, ConversationMessage, readContext } from '../../shared/contextProviders';
+import { HistoryManager, formatHistorySummary } from '../../shared/historyManager';
+import { PLACEHOLDER_INSTRUCTION, Redactor } from '../../shared/privacy';
+
+/**
+ * Chat history in the format of the SDK. The history must start with a user message, so anything
+ * before the first one is dropped.
+ */
+function toChatHistory(messages: ConversationMessage[]): Content[] {
+    const firstUserMessage = messages.findIndex(m => m.role === "user");
+    if (firstUserMessage === -1) return [];
+    return messages.slice(firstUserMessage).map(m => ({
+        role: m.role === "user" ? "user" : "model",
+        parts: [{ text: m.text }],
+    }));
+}
+
+/**
+ * Text version of a chat turn for the history manager, including function calls and responses.
+ */
+function toConversationMessage(content: Content): ConversationMessage {
+    const text = content.parts.map(part => {
+        if (part.text) return part.text;
+        if (part.functionCall) return `[Called ${part.functionCall.name} with ${JSON.stringify(part.functionCall.args)}]`;
+        if (part.functionResponse) return `[${part.functionResponse.name} returned ${JSON.stringify(part.functionResponse.response)}]`;
+        return "";
+    }).join(' ').trim();
+    return { role: content.role === "user" ? "user" : "assistant", text };
+}
+
+// The history may only be cut before a user message, never between a function call and its response
+function isTurnStart(content: Content): boolean {
+    return content.role === "user" && content.parts.some(part => part.text);
+}
+
+function responseText(result: GenerateContentResult): string {
+    return result.response.candidates?.[0]?.content?.parts?.map(part => part.text ?? "").join("").trim() ?? "";
+}
+
+/**
+ * Chat session whose system instruction is rebuilt from the context providers on every turn,
+ * so a new location or profile applies to the next message. When the instruction changes, the
+ * chat is restarted with the history it had so far. Text turns are also appended to the
+ * history provider, so a file-backed history survives restarts of the app.
+ * With a history manager, the chat history is kept within its token budget: older turns are
+ * dropped from the chat and their summary is added to the system instruction.
+ * With a redactor, the model only sees the context allowed by the privacy policy and masked
+ * messages; restore() puts the real values back into its answers and function call arguments.
+ * The history provider keeps the real messages.
+ */
+export class ContextAwareChat {
+    private chat: ChatSession | null = null;
+    private systemInstruction: string | null = null;
+    private droppedMessages: ConversationMessage[] = []; // Turns removed from the chat, covered by the summary
+
+    constructor(
+        private readonly genAI: GoogleGenerativeAI,
+        private readonly modelParams: Omit<ModelParams, "systemInstruction">,
+        private readonly providers: ContextProviders,
+        private readonly buildSystemInstruction: (context: ContextSnapshot) => string,
+        private readonly historyManager?: HistoryManager,
+        private readonly redactor?: Redactor
+    ) {}
+
+    /**
+     * Puts the real values back in place of the placeholders in a text or in function call arguments.
+     */
+    restore<T>(value: T): T {
+        return this.redactor ? this.redactor.restoreDeep(value) : value;
+    }
+
+    // Masks the text parts and function responses of a message before it is sent
+    private redactRequest(request: string | Array<string | Part>): string | Array<string | Part> {
+        const redactor = this.redactor;
+        if (!redactor) return request;
+        if (typeof request === "string") return redactor.redactText(request);
+        return request.map(part => {
+            if (typeof part === "string") return redactor.redactText(part);
+            if (part.text) return { ...part, text: redactor.redactText(part.text) };
+            if (part.functionResponse) {
+                return { ...part, functionResponse: { ...part.functionResponse, response: redactor.redactDeep(part.functionResponse.response) } };
+            }
+            return part;
+        });
+    }
+
+    async sendMessage(request: string | Array<string | Part>): Promise<GenerateContentResult> {
+        const rawContext = await readContext(this.providers);
+        const context = this.redactor ? this.redactor.redactContext(rawContext) : rawContext;
+        let history = this.chat ? await this.chat.getHistory() : toChatHistory(context.conversationHistory);
+        let historySummary = "";
+        let trimmed = false;
+        if (this.historyManager) {
+            const dropped = this.droppedMessages;
+            const messages = [...dropped, ...history.map(toConversationMessage)];
+            const window = await this.historyManager.window(messages, i => i >= dropped.length && isTurnStart(history[i - dropped.length]));
+            const recentStart = Math.max(0, window.firstRecentIndex - dropped.length);
+            if (recentStart > 0) {
+                console.log(`(Summarizing ${recentStart} older chat messages to stay within the history budget.)`);
+                this.droppedMessages = messages.slice(0, window.firstRecentIndex);
+                history = history.slice(recentStart);
+                trimmed = true;
+            }
+            historySummary = formatHistorySummary(window);
+        }
+
+        const baseInstruction = this.redactor
+            ? `${this.buildSystemInstruction(context)}\n${PLACEHOLDER_INSTRUCTION}`
+            : this.buildSystemInstruction(context);
+        const systemInstruction = historySummary ? `${baseInstruction}\n\n**Earlier Conversation**\n${historySummary}` : baseInstruction;
+        if (!this.chat || trimmed || systemInstruction !== this.systemInstruction) {
+            if (this.chat && !trimmed) console.log("(Context changed, updating the system instruction.)");
+            const model = this.genAI.getGenerativeModel({ ...this.modelParams, systemInstruction });
+            this.chat = model.startChat({ history });
+            this.systemInstruction = systemInstruction;
+        }
+
+        const result = await this.chat.sendMessage(this.redactRequest(request));
+        const messages: ConversationMessage[] = [];
+        if (typeof request === "string") messages.push({ role: "user", text: request });
+        const text = this.restore(responseText(result));
+        if (text) messages.push({ role: "assistant", text });
+        if (messages.length > 0) {
+            try {
+                await this.providers.history.append(...messages);
+            } catch (error: any) {
+                console.error("Error saving the conversation history:", error.message);
+            }
+        }
+        return result;
+    }
+}
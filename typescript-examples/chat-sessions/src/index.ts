@@ -1,43 +1,103 @@
 import {
     GoogleGenerativeAI,
-    ChatSession,
     SchemaType,
     FunctionDeclaration, 
+    Schema,
     Tool,
 } from "@google/generative-ai";
 import * as readline from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
+import {
+    ContextProviders,
+    ContextSnapshot,
+    createFileContextProviders,
+    createInMemoryContextProviders
+} from '../../shared/contextProviders';
+import { DEFAULT_HISTORY_WINDOW_OPTIONS, HistoryManager } from '../../shared/historyManager';
+import { DEFAULT_PRIVACY_POLICY_PATH, Redactor, loadPrivacyPolicy } from '../../shared/privacy';
+import { ContextAwareChat } from './contextAwareChat';
+import { DEFAULT_ROUTE_GRAPH_PATH, RouteGraph, loadRouteGraph } from './routeGraph';
+import {
+    ATTRIBUTION_SOURCES,
+    CONSTRAINT_DESCRIPTIONS,
+    RouteRequest,
+    SURFACE_PREFERENCES,
+    TRAVEL_MODES,
+    formatRouteRequest,
+    toRouteConstraints,
+    validateRouteRequest
+} from '../../shared/routeRequest';
+import { RouteResult, findAccessibleRoute, formatRoute } from './routingEngine';
 
-// --- Static Context Definition ---
-// Note: Ideally there would be another function call to get this data because both the user profile and current location are dynamic values
-// so the model should always have access to the most recent ones but for simplicity this remains as static content.
-const STATIC_CONTEXT = {
+// --- Context Definition ---
+// The user profile and current location are dynamic values, so they are read from context providers
+// on every turn and the model always has the most recent ones. Without --context-dir these in-memory
+// defaults are used; with it, location.txt, profile.txt and history.json are read from that directory.
+const DEFAULT_CONTEXT: ContextSnapshot = {
     currentLocation: "Near Museum of Pop Culture (MoPOP), Seattle",
-    userProfile: "Uses a manual wheelchair. Difficult navigating stairs or steep inclines (>5% gradient). Prefers smooth pavement and routes with curb cuts. Preferred mode for suitable routes is self-propelling (rolling); otherwise, considers alternative transport."
+    userProfile: "Uses a manual wheelchair. Difficult navigating stairs or steep inclines (>5% gradient). Prefers smooth pavement and routes with curb cuts. Preferred mode for suitable routes is self-propelling (rolling); otherwise, considers alternative transport.",
+    conversationHistory: []
 };
 
 // --- Tool Implementation ---
 
+// Arguments of find_route as the model fills them in: the route request of rephrase-user-query
+// (../../shared/routeRequest.ts), with the source of every field, and the refined query
+interface FindRouteArgs extends RouteRequest {
+    rephrasedUserQuery: string;
+    reasoning: string;
+}
+
 /**
- * Placeholder function to simulate finding a route.
- * In a real app, this would call a routing service.
+ * Finds a route with the local routing engine on the bundled map, without any network call.
+ * Fields with an invalid value or source are dropped (with a warning) rather than failing the call.
  */
-async function find_route(
-    { rephrasedUserQuery, reasoning }: { rephrasedUserQuery: string, reasoning: string }
-): Promise<{ routeInfo: string }> {
+function find_route(graph: RouteGraph, args: FindRouteArgs): { routeInfo: string, route: RouteResult } {
     console.log(`\n--- TOOL CALL: find_route ---`);
-    console.log(`Received refined query: "${rephrasedUserQuery}"`);
-    console.log(`Reasoning: "${reasoning}"`);
-    // Simulate API call / route calculation
-    await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
-    console.log(`--- TOOL RESULT: Simulating route calculation... ---`);
-    return { routeInfo: `Route calculation based on '${rephrasedUserQuery}' completed. No route found (placeholder).` };
+    console.log(`Received refined query: "${args.rephrasedUserQuery}"`);
+    console.log(`Reasoning: "${args.reasoning}"`);
+    const request = validateRouteRequest(args);
+    if (request) formatRouteRequest(request).forEach(line => console.log(`  ${line}`));
+    const constraints = toRouteConstraints(request?.constraints ?? {});
+
+    const route = findAccessibleRoute(graph, request?.origin?.value ?? "", request?.destination?.value ?? "", constraints);
+    console.log(`--- TOOL RESULT (${graph.name} map, constraints: ${JSON.stringify(constraints)}) ---`);
+    formatRoute(route).forEach(line => console.log(`  ${line}`));
+    return { routeInfo: route.message, route };
 }
 
 // --- Tool Definition ---
+/**
+ * Parameter of a route request field with its source attribution, as in the route request of
+ * rephrase-user-query.
+ */
+function attributedParameter(value: Schema, description: string): Schema {
+    return {
+        type: SchemaType.OBJECT,
+        description: `${description} Omit it when neither the user nor the context says.`,
+        properties: {
+            value,
+            source: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: ATTRIBUTION_SOURCES,
+                description: "Where the value comes from: the user's message, the conversation history, the user profile or the current location.",
+            },
+            evidence: {
+                type: SchemaType.STRING,
+                description: "The words of the source the value was taken from, e.g. 'Difficult navigating stairs'.",
+            },
+        },
+        required: ["value", "source", "evidence"],
+    };
+}
+
 const findRouteTool: FunctionDeclaration = {
     name: "find_route",
-    description: `Calculates and finds a suitable route based on a detailed query.
+    description: `Calculates an accessible walking or rolling route between two places of the Seattle Center
+                  area (e.g. Museum of Pop Culture, Space Needle, Pacific Science Center, Armory,
+                  International Fountain, Climate Pledge Arena, McCaw Hall). Returns turn-by-turn steps,
+                  the total distance and the constraints that forced detours.
                   Call this function whenever the user explicitly asks for directions, a route,
                   or how to get somewhere. The query should be reformulated first based on
                   conversation history and user profile context (if available/relevant)
@@ -55,26 +115,44 @@ const findRouteTool: FunctionDeclaration = {
             reasoning: {
                 type: SchemaType.STRING,
                 description: `An explanation on why/how was the user query reformulated.`
+            },
+            origin: attributedParameter({ type: SchemaType.STRING }, "Where the route starts, as a place name (the user's current location if they say 'from here')."),
+            destination: attributedParameter({ type: SchemaType.STRING }, "Where the route ends, as a place name."),
+            travelMode: attributedParameter({ type: SchemaType.STRING, format: "enum", enum: TRAVEL_MODES }, "How the user travels."),
+            constraints: {
+                type: SchemaType.OBJECT,
+                description: "The accessibility constraints of the user, e.g. from the user profile.",
+                properties: {
+                    maxGradientPercent: attributedParameter({ type: SchemaType.NUMBER }, CONSTRAINT_DESCRIPTIONS.maxGradientPercent),
+                    avoidStairs: attributedParameter({ type: SchemaType.BOOLEAN }, CONSTRAINT_DESCRIPTIONS.avoidStairs),
+                    requireCurbCuts: attributedParameter({ type: SchemaType.BOOLEAN }, CONSTRAINT_DESCRIPTIONS.requireCurbCuts),
+                    surface: attributedParameter({ type: SchemaType.STRING, format: "enum", enum: SURFACE_PREFERENCES }, CONSTRAINT_DESCRIPTIONS.surface),
+                },
             }
         },
-        required: ["rephrasedUserQuery", "reasoning"]
+        required: ["rephrasedUserQuery", "reasoning", "origin", "destination", "constraints"]
     }
 };
 
 // --- System Instruction Definition ---
 // Guides the model on its role, context awareness, and WHEN/HOW to use tools.
-const SYSTEM_INSTRUCTION = `You are an AI assistant integrated into a navigation application.
+// Rebuilt on every turn from the latest user profile and location. By default the model never asks
+// follow-up questions; with askWhenAmbiguous (--clarify) it asks one when the destination is ambiguous.
+const NO_FOLLOW_UP_RULE = `**CRUCIAL** Do not ask follow up questions or clarifications. Do your best to understand and answer the user request as fast as possible, fill up any information gaps using your best judgement.`;
+const CLARIFY_WHEN_AMBIGUOUS_RULE = `**CRUCIAL** Do not ask follow up questions for details you can fill in with your best judgement. But when the request could mean clearly different places (e.g. 'there' could refer to two places in the conversation), do not call the tool: ask one short question that tells them apart (e.g. "Do you mean the Pacific Science Center or the Space Needle?") and call the tool once the user answered.`;
+
+const buildSystemInstruction = (context: ContextSnapshot, askWhenAmbiguous = false) => `You are an AI assistant integrated into a navigation application.
 Maintain awareness of the ongoing conversation history.
 Your primary goal is to be helpful and provide accurate navigation-related information or perform tasks.
 
 WHEN THE USER ASKS FOR A ROUTE OR DIRECTIONS:
-1.  **CRUCIAL** Do not ask follow up questions or clarifications. Do your best to understand and answer the user request as fast as possible, fill up any information gaps using your best judgement.
+1.  ${askWhenAmbiguous ? CLARIFY_WHEN_AMBIGUOUS_RULE : NO_FOLLOW_UP_RULE}
 1.  **Analyze Request:** Understand the user's request using the conversation as context.
 1.  **Refine Query Internally:** Before calling any tool, mentally (or internally) refine the user's request into a clear, detailed query. Consider:
     * Correcting potential errors like typos (use the context like user profile and conversation history as reference).
     * Resolving ambiguous references ('there', 'it') using conversation history, e.g. "Tell more about Stanford" -> "What is the best way to get there?" -> can be rephrased as "What is the best way to get to Stanford?".
     * Augmenting with details like origin (if implied 'from here' or known location), destination (from history), and relevant user needs from the user profile'.
-1.  **Call Tool:** Invoke the 'find_route' function, passing the fully refined, detailed query as the 'rephrasedUserQuery' argument.
+1.  **Call Tool:** Invoke the 'find_route' function, passing the fully refined, detailed query as the 'rephrasedUserQuery' argument, the origin, the destination and the constraints from the user profile (maximum gradient, avoid stairs, curb cuts, surface). For each of them, give the 'source' it comes from ('query', 'history', 'profile' or 'location') and quote the words of that source as 'evidence'.
 1.  **Respond to User:** After the tool provides its result, formulate a natural language response to the user summarizing the route information or indicating if a route couldn't be found.
 
 For general chat about places or accessibility, respond directly without calling the tool.
@@ -82,16 +160,30 @@ For general chat about places or accessibility, respond directly without calling
 
 **User Profile**
 Use the following information to better understand and assist the user:
-${STATIC_CONTEXT.userProfile}
+${context.userProfile}
 
 **Current Location**
-The user is currently at this location: ${STATIC_CONTEXT.currentLocation}.
+The user is currently at this location: ${context.currentLocation}.
 
 `
 
 
 // --- Helper Functions ---
 
+/**
+ * Value of an option such as "--context-dir <dir>", or undefined when it isn't given.
+ */
+function getOption(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    if (index === -1) return undefined;
+    const value = process.argv[index + 1];
+    if (!value) {
+        console.error(`Missing value after ${name}.`);
+        process.exit(1);
+    }
+    return value;
+}
+
 async function getApiKey(): Promise<string> {
     const rl = readline.createInterface({ input, output });
     console.log("\n---------------------------------------------------------------");
@@ -111,6 +203,34 @@ async function getApiKey(): Promise<string> {
 // --- Main Execution Logic ---
 
 async function main() {
+    const contextDir = getOption("--context-dir");
+    const historyBudget = Number(getOption("--history-budget") ?? DEFAULT_HISTORY_WINDOW_OPTIONS.tokenBudget);
+    if (!(historyBudget > 0)) {
+        console.error("--history-budget must be a positive number of tokens.");
+        process.exit(1);
+    }
+    const contextProviders: ContextProviders = contextDir
+        ? createFileContextProviders(contextDir)
+        : createInMemoryContextProviders(DEFAULT_CONTEXT);
+    const askWhenAmbiguous = process.argv.includes("--clarify");
+    // The privacy policy decides what of the location and profile is sent to the model
+    const policyPath = getOption("--privacy-policy") ?? DEFAULT_PRIVACY_POLICY_PATH;
+    let redactor: Redactor;
+    try {
+        redactor = new Redactor(await loadPrivacyPolicy(policyPath));
+    } catch (error: any) {
+        console.error(error.message);
+        process.exit(1);
+    }
+    // find_route searches this map locally
+    let routeGraph: RouteGraph;
+    try {
+        routeGraph = await loadRouteGraph(getOption("--route-graph") ?? DEFAULT_ROUTE_GRAPH_PATH);
+    } catch (error: any) {
+        console.error(error.message);
+        process.exit(1);
+    }
+
     let apiKey: string;
     try {
         apiKey = await getApiKey();
@@ -125,16 +245,19 @@ async function main() {
     const tools: Tool[] = [
       { functionDeclarations: [findRouteTool] }];
 
-    const model = genAI.getGenerativeModel({
-        model: "gemini-2.0-flash-exp",
-        systemInstruction: SYSTEM_INSTRUCTION,
-        tools: tools,
-    });
+    // Older turns beyond the history budget are summarized by a model without tools
+    const summaryModel = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    const historyManager = new HistoryManager(
+        async prompt => (await summaryModel.generateContent(prompt)).response.text(),
+        { tokenBudget: historyBudget }
+    );
 
     // --- Start the Chat Session ---
-    const chat: ChatSession = model.startChat({
-        history: []
-    });
+    // The system instruction is built from the context providers before each message
+    const chat = new ContextAwareChat(genAI, {
+        model: "gemini-2.0-flash-exp",
+        tools: tools,
+    }, contextProviders, context => buildSystemInstruction(context, askWhenAmbiguous), historyManager, redactor);
 
     console.log("Chat session started (with System Instruction & Tools).");
     console.log("Simulating conversation...");
@@ -145,7 +268,7 @@ async function main() {
         console.log(`\nUser: ${query1}`);
         let result = await chat.sendMessage(query1);
         let response = result.response;
-        let responseText = response.text(); // Get initial text response
+        let responseText = chat.restore(response.text()); // Get initial text response
         console.log(`Assistant: ${responseText}`);
 
         // --- Turn 2: User asks for directions (raw query) ---
@@ -170,9 +293,11 @@ async function main() {
             if (functionCall) {
                 completedFunctionCall = true;
                 console.log(`\nAssistant requested Function Call: ${functionCall.name}`);
-                const { name, args } = functionCall;
+                // The arguments may hold placeholders, e.g. "from [CURRENT_LOCATION]"
+                const { name } = functionCall;
+                const args = chat.restore(functionCall.args);
                 if (name === "find_route") {
-                    const apiResponse = await find_route(args as { rephrasedUserQuery: string, reasoning: string });
+                    const apiResponse = find_route(routeGraph, args as FindRouteArgs);
                     console.log(`Sending Function Response back to model...`);
                     result = await chat.sendMessage([
                         {
@@ -190,15 +315,23 @@ async function main() {
                 }
             } else {
                 response = result.response;
-                responseText = response.text();
+                responseText = chat.restore(response.text());
                 console.log(`Assistant: ${responseText}`);
-                console.log(`\nUser: Ok`);
-                result = await chat.sendMessage(`Ok. Please help me find it.`);
+                if (askWhenAmbiguous) {
+                    // The assistant may have asked which place the user means, so let the user answer
+                    const rlAnswer = readline.createInterface({ input, output });
+                    const answer = (await rlAnswer.question(`\nUser: `)).trim();
+                    rlAnswer.close();
+                    result = await chat.sendMessage(answer || `Ok. Please help me find it.`);
+                } else {
+                    console.log(`\nUser: Ok`);
+                    result = await chat.sendMessage(`Ok. Please help me find it.`);
+                }
             }
         }
         // --- Final Response ---
         // After handling any function calls, get the final text response
-        responseText = response.text();
+        responseText = chat.restore(response.text());
         console.log(`\nAssistant (Final Response ): ${responseText}`);
 
 
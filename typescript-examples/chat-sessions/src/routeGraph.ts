@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// --- Interfaces ---
+export type EdgeSurface = "smooth" | "paved" | "rough";
+
+export interface GraphNode {
+    id: string;
+    name: string;
+    kind: "place" | "junction"; // Only places can be the origin or destination of a route
+    lat: number;
+    lon: number;
+    aliases?: string[]; // Other names users call the place by, e.g. "MoPOP"
+}
+
+// A path segment, usable in both directions
+export interface GraphEdge {
+    from: string;
+    to: string;
+    name: string; // Name of the path or street, used in the turn-by-turn steps
+    lengthMeters: number;
+    gradientPercent: number; // Climb from "from" to "to", negative when going down
+    surface: EdgeSurface;
+    stairs: boolean;
+    crossing?: boolean; // The segment crosses a street
+    curbCuts?: boolean; // For crossings: whether both curbs have curb cuts
+}
+
+export interface RouteGraph {
+    name: string;
+    description?: string;
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+// An edge as traveled in one direction
+export interface DirectedEdge {
+    edge: GraphEdge;
+    from: GraphNode;
+    to: GraphNode;
+    gradientPercent: number; // In the direction of travel
+}
+
+export const DEFAULT_ROUTE_GRAPH_PATH = path.join(__dirname, '../data', 'seattle-center.json');
+
+export const EDGE_SURFACES: EdgeSurface[] = ["smooth", "paved", "rough"];
+
+export class RouteGraphError extends Error {
+    constructor(filePath: string, readonly problems: string[]) {
+        super(`Invalid route graph ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = "RouteGraphError";
+    }
+}
+
+/**
+ * Checks the nodes and edges of a graph file and returns the problems found (empty when valid).
+ */
+function validateRouteGraph(raw: any): string[] {
+    const problems: string[] = [];
+    if (!Array.isArray(raw?.nodes) || raw.nodes.length === 0) problems.push(`"nodes" must be a non-empty list.`);
+    if (!Array.isArray(raw?.edges)) problems.push(`"edges" must be a list.`);
+    if (problems.length > 0) return problems;
+
+    const ids = new Set<string>();
+    raw.nodes.forEach((node: any, index: number) => {
+        const label = `Node #${index + 1} (${node?.id ?? "no id"})`;
+        if (typeof node?.id !== "string" || !node.id) problems.push(`${label} needs an "id".`);
+        else if (ids.has(node.id)) problems.push(`${label}: duplicate id.`);
+        else ids.add(node.id);
+        if (typeof node?.name !== "string" || !node.name.trim()) problems.push(`${label} needs a "name".`);
+        if (node?.kind !== "place" && node?.kind !== "junction") problems.push(`${label}: "kind" must be "place" or "junction".`);
+        if (typeof node?.lat !== "number" || typeof node?.lon !== "number") problems.push(`${label} needs numeric "lat" and "lon".`);
+        if (node?.aliases !== undefined && (!Array.isArray(node.aliases) || node.aliases.some((a: any) => typeof a !== "string"))) {
+            problems.push(`${label}: "aliases" must be a list of names.`);
+        }
+    });
+    raw.edges.forEach((edge: any, index: number) => {
+        const label = `Edge #${index + 1} (${edge?.from} -> ${edge?.to})`;
+        if (!ids.has(edge?.from) || !ids.has(edge?.to)) problems.push(`${label} connects an unknown node.`);
+        if (typeof edge?.name !== "string" || !edge.name.trim()) problems.push(`${label} needs a "name".`);
+        if (typeof edge?.lengthMeters !== "number" || !(edge.lengthMeters > 0)) problems.push(`${label}: "lengthMeters" must be a positive number.`);
+        if (typeof edge?.gradientPercent !== "number" || !Number.isFinite(edge.gradientPercent)) problems.push(`${label}: "gradientPercent" must be a number.`);
+        if (!EDGE_SURFACES.includes(edge?.surface)) problems.push(`${label}: "surface" must be one of ${EDGE_SURFACES.join(', ')}.`);
+        if (typeof edge?.stairs !== "boolean") problems.push(`${label}: "stairs" must be true or false.`);
+        if (edge?.crossing === true && typeof edge?.curbCuts !== "boolean") problems.push(`${label}: a crossing must say whether it has "curbCuts".`);
+    });
+    return problems;
+}
+
+/**
+ * Loads and validates a graph file. Throws a RouteGraphError listing every problem.
+ */
+export async function loadRouteGraph(filePath: string = DEFAULT_ROUTE_GRAPH_PATH): Promise<RouteGraph> {
+    let raw: any;
+    try {
+        raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+        throw new RouteGraphError(filePath, [`Could not read the file: ${error.message}`]);
+    }
+    const problems = validateRouteGraph(raw);
+    if (problems.length > 0) {
+        throw new RouteGraphError(filePath, problems);
+    }
+    return raw as RouteGraph;
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Finds the place a text refers to, e.g. "Near Museum of Pop Culture (MoPOP), Seattle" or
+ * "the science center". The place whose name or alias matches the longest part of the text wins.
+ */
+export function findPlace(graph: RouteGraph, text: string): GraphNode | null {
+    const query = normalize(text);
+    if (!query) return null;
+    let best: { node: GraphNode, score: number } | null = null;
+    for (const node of graph.nodes.filter(n => n.kind === "place")) {
+        for (const name of [node.name, ...(node.aliases ?? [])]) {
+            const candidate = normalize(name);
+            // Either the text mentions the name, or the text is part of the name ("science center").
+            // A single word of a name isn't enough, or "Seattle" would match "Seattle Center Armory".
+            const matches = ` ${query} `.includes(` ${candidate} `)
+                || (query.includes(" ") && ` ${candidate} `.includes(` ${query} `));
+            const score = matches ? Math.min(candidate.length, query.length) : 0;
+            if (score > (best?.score ?? 0)) best = { node, score };
+        }
+    }
+    return best?.node ?? null;
+}
+
+/**
+ * The edges leaving every node, in both directions of each edge.
+ */
+export function buildAdjacency(graph: RouteGraph): Map<string, DirectedEdge[]> {
+    const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+    const adjacency = new Map<string, DirectedEdge[]>(graph.nodes.map(node => [node.id, []]));
+    for (const edge of graph.edges) {
+        const from = nodes.get(edge.from)!;
+        const to = nodes.get(edge.to)!;
+        adjacency.get(from.id)!.push({ edge, from, to, gradientPercent: edge.gradientPercent });
+        adjacency.get(to.id)!.push({ edge, from: to, to: from, gradientPercent: -edge.gradientPercent });
+    }
+    return adjacency;
+}
@@ -0,0 +1,299 @@
+import { ConstraintName, RouteConstraints, SurfacePreference } from '../../shared/routeRequest';
+import { DirectedEdge, EdgeSurface, GraphNode, RouteGraph, buildAdjacency, findPlace } from './routeGraph';
+
+// --- Routing Engine ---
+// Finds accessible routes on a local graph, without any network call. Hard constraints (stairs,
+// gradient, curb cuts) exclude edges; the surface preference makes worse surfaces more expensive.
+// To tell the user why a route isn't the shortest one, the search is repeated without each
+// constraint: when that gives a shorter route, the constraint forced a detour.
+
+// --- Interfaces ---
+export interface RouteStep {
+    instruction: string; // e.g. "Turn left onto Armory south ramp"
+    distanceMeters: number;
+    notes: string[]; // e.g. "downhill 4.5%", "street crossing with curb cuts"
+}
+
+export interface Detour {
+    constraint: ConstraintName;
+    extraMeters: number; // How much longer the route is than without this constraint
+    avoided: string[]; // What the shorter way has, e.g. "stairs on Needle south steps"
+}
+
+export interface RouteResult {
+    found: boolean;
+    origin: string | null; // Name of the place the origin was resolved to
+    destination: string | null;
+    totalDistanceMeters: number;
+    steps: RouteStep[];
+    detours: Detour[];
+    // When no route was found, the smallest sets of constraints without which one would exist, e.g.
+    // [["avoidStairs"], ["requireCurbCuts"]], or [["avoidStairs", "maxGradientPercent"]] when only
+    // dropping both together helps. Empty when the places aren't connected even without constraints.
+    blockingConstraints: ConstraintName[][];
+    message: string; // One-line summary, or why no route was found
+}
+
+interface PathResult {
+    path: DirectedEdge[];
+    lengthMeters: number;
+}
+
+// Cost factor of each surface, per preference
+const SURFACE_COST: Record<SurfacePreference, Record<EdgeSurface, number>> = {
+    smooth: { smooth: 1, paved: 1.25, rough: 2 },
+    paved: { smooth: 1, paved: 1, rough: 2 },
+    any: { smooth: 1, paved: 1, rough: 1 },
+};
+
+// Turn-by-turn steps only mention gradients from this steepness on
+const NOTABLE_GRADIENT_PERCENT = 2;
+
+export function describeConstraint(name: ConstraintName, constraints: RouteConstraints): string {
+    switch (name) {
+        case "maxGradientPercent": return `max ${constraints.maxGradientPercent}% gradient`;
+        case "avoidStairs": return "no stairs";
+        case "requireCurbCuts": return "curb cuts at crossings";
+        case "surface": return `${constraints.surface} surface`;
+    }
+}
+
+/**
+ * The constraints that restrict the search, in a fixed order.
+ */
+function activeConstraints(constraints: RouteConstraints): ConstraintName[] {
+    const active: ConstraintName[] = [];
+    if (constraints.avoidStairs) active.push("avoidStairs");
+    if (constraints.maxGradientPercent !== undefined) active.push("maxGradientPercent");
+    if (constraints.requireCurbCuts) active.push("requireCurbCuts");
+    if (constraints.surface && constraints.surface !== "any") active.push("surface");
+    return active;
+}
+
+/**
+ * Why an edge goes against a constraint, e.g. "stairs on Needle south steps", or null when it doesn't.
+ * For the surface preference, this means a worse surface than preferred.
+ */
+function describeViolation(name: ConstraintName, step: DirectedEdge, constraints: RouteConstraints): string | null {
+    const { edge } = step;
+    switch (name) {
+        case "avoidStairs":
+            return constraints.avoidStairs && edge.stairs ? `stairs on ${edge.name}` : null;
+        case "maxGradientPercent":
+            // Stairs are steep by nature and covered by avoidStairs; the gradient limit is for slopes and ramps
+            return constraints.maxGradientPercent !== undefined && !edge.stairs && Math.abs(step.gradientPercent) > constraints.maxGradientPercent
+                ? `a gradient of ${Math.abs(step.gradientPercent)}% on ${edge.name}`
+                : null;
+        case "requireCurbCuts":
+            return constraints.requireCurbCuts && edge.crossing && !edge.curbCuts ? `a crossing without curb cuts on ${edge.name}` : null;
+        case "surface":
+            return constraints.surface && SURFACE_COST[constraints.surface][edge.surface] > 1 ? `${edge.surface} surface on ${edge.name}` : null;
+    }
+}
+
+function isAllowed(step: DirectedEdge, constraints: RouteConstraints): boolean {
+    return (["avoidStairs", "maxGradientPercent", "requireCurbCuts"] as ConstraintName[])
+        .every(name => describeViolation(name, step, constraints) === null);
+}
+
+/**
+ * All the sets of `size` names, keeping their order, e.g. pairs of the active constraints.
+ */
+function combinations(names: ConstraintName[], size: number): ConstraintName[][] {
+    if (size === 0) return [[]];
+    return names.flatMap((name, index) => combinations(names.slice(index + 1), size - 1).map(rest => [name, ...rest]));
+}
+
+/**
+ * The smallest sets of hard constraints without which a route would exist: single constraints
+ * first, then pairs, and so on. The surface preference never blocks a route, so it isn't tried.
+ */
+function findBlockingConstraints(adjacency: Map<string, DirectedEdge[]>, originId: string, destinationId: string, constraints: RouteConstraints): ConstraintName[][] {
+    const hard = activeConstraints(constraints).filter(name => name !== "surface");
+    for (let size = 1; size <= hard.length; size++) {
+        const blocking = combinations(hard, size).filter(names => {
+            const relaxed: RouteConstraints = { ...constraints };
+            names.forEach(name => delete relaxed[name]);
+            return shortestPath(adjacency, originId, destinationId, relaxed) !== null;
+        });
+        if (blocking.length > 0) return blocking;
+    }
+    return [];
+}
+
+/**
+ * Dijkstra's algorithm over the allowed edges, with the length weighted by the surface preference.
+ * Routes only pass through junctions: other places are never entered, so a route doesn't lead
+ * through a venue such as the Space Needle.
+ */
+function shortestPath(adjacency: Map<string, DirectedEdge[]>, originId: string, destinationId: string, constraints: RouteConstraints): PathResult | null {
+    const surfaceCost = SURFACE_COST[constraints.surface ?? "any"];
+    const costs = new Map<string, number>([[originId, 0]]);
+    const previous = new Map<string, DirectedEdge>();
+    const done = new Set<string>();
+    // The graphs are small, so a linear search for the closest node is fast enough
+    while (true) {
+        let current: string | null = null;
+        for (const [id, cost] of costs) {
+            if (!done.has(id) && (current === null || cost < costs.get(current)!)) current = id;
+        }
+        if (current === null) return null;
+        if (current === destinationId) break;
+        done.add(current);
+        for (const step of adjacency.get(current) ?? []) {
+            if (done.has(step.to.id) || !isAllowed(step, constraints)) continue;
+            if (step.to.kind === "place" && step.to.id !== destinationId) continue;
+            const cost = costs.get(current)! + step.edge.lengthMeters * surfaceCost[step.edge.surface];
+            if (cost < (costs.get(step.to.id) ?? Infinity)) {
+                costs.set(step.to.id, cost);
+                previous.set(step.to.id, step);
+            }
+        }
+    }
+
+    const path: DirectedEdge[] = [];
+    for (let id = destinationId; id !== originId; id = previous.get(id)!.from.id) {
+        path.unshift(previous.get(id)!);
+    }
+    return { path, lengthMeters: path.reduce((sum, step) => sum + step.edge.lengthMeters, 0) };
+}
+
+// --- Turn-by-Turn Steps ---
+function bearing(from: GraphNode, to: GraphNode): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const [lat1, lat2] = [toRadians(from.lat), toRadians(to.lat)];
+    const deltaLon = toRadians(to.lon - from.lon);
+    const y = Math.sin(deltaLon) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+function compassDirection(degrees: number): string {
+    const directions = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"];
+    return directions[Math.round(degrees / 45) % 8];
+}
+
+function turnInstruction(change: number, name: string): string {
+    const angle = ((change + 540) % 360) - 180; // -180..180, negative is a left turn
+    const side = angle < 0 ? "left" : "right";
+    if (Math.abs(angle) < 20) return `Continue onto ${name}`;
+    if (Math.abs(angle) < 60) return `Bear ${side} onto ${name}`;
+    if (Math.abs(angle) < 150) return `Turn ${side} onto ${name}`;
+    return `Turn around onto ${name}`;
+}
+
+function stepNotes(segments: DirectedEdge[]): string[] {
+    const notes: string[] = [];
+    const steepest = segments.reduce((max, s) => Math.abs(s.gradientPercent) > Math.abs(max.gradientPercent) ? s : max);
+    if (Math.abs(steepest.gradientPercent) >= NOTABLE_GRADIENT_PERCENT) {
+        notes.push(`${steepest.gradientPercent > 0 ? "uphill" : "downhill"} ${Math.abs(steepest.gradientPercent)}%`);
+    }
+    if (segments.some(s => s.edge.stairs)) notes.push("stairs");
+    for (const s of segments.filter(s => s.edge.crossing)) {
+        notes.push(s.edge.curbCuts ? "street crossing with curb cuts" : "street crossing without curb cuts");
+    }
+    if (segments.some(s => s.edge.surface === "rough")) notes.push("rough surface");
+    return notes;
+}
+
+/**
+ * One step per stretch of the same path or street, plus the arrival.
+ */
+function buildSteps(path: DirectedEdge[], destination: GraphNode): RouteStep[] {
+    const groups: DirectedEdge[][] = [];
+    for (const step of path) {
+        const last = groups[groups.length - 1];
+        if (last && last[0].edge.name === step.edge.name) last.push(step);
+        else groups.push([step]);
+    }
+    const steps = groups.map((segments, index) => {
+        const heading = bearing(segments[0].from, segments[0].to);
+        const name = segments[0].edge.name;
+        const previous = index > 0 ? groups[index - 1][groups[index - 1].length - 1] : null;
+        const instruction = previous
+            ? turnInstruction(heading - bearing(previous.from, previous.to), name)
+            : `Head ${compassDirection(heading)} on ${name}`;
+        return {
+            instruction,
+            distanceMeters: segments.reduce((sum, s) => sum + s.edge.lengthMeters, 0),
+            notes: stepNotes(segments),
+        };
+    });
+    steps.push({ instruction: `Arrive at ${destination.name}`, distanceMeters: 0, notes: [] });
+    return steps;
+}
+
+/**
+ * Finds the shortest route that meets the constraints between two places, named as the user or
+ * the model would name them (e.g. "Near Museum of Pop Culture (MoPOP), Seattle").
+ */
+export function findAccessibleRoute(graph: RouteGraph, originText: string, destinationText: string, constraints: RouteConstraints): RouteResult {
+    const origin = findPlace(graph, originText);
+    const destination = findPlace(graph, destinationText);
+    const result: RouteResult = {
+        found: false,
+        origin: origin?.name ?? null,
+        destination: destination?.name ?? null,
+        totalDistanceMeters: 0,
+        steps: [],
+        detours: [],
+        blockingConstraints: [],
+        message: "",
+    };
+    if (!origin || !destination) {
+        const places = graph.nodes.filter(n => n.kind === "place").map(n => n.name).join(', ');
+        const unknown = [!origin ? `origin "${originText}"` : null, !destination ? `destination "${destinationText}"` : null].filter(Boolean).join(' and ');
+        result.message = `Unknown ${unknown}. The ${graph.name} map knows: ${places}.`;
+        return result;
+    }
+
+    const adjacency = buildAdjacency(graph);
+    const samePlace = origin.id === destination.id;
+    const best = samePlace ? { path: [], lengthMeters: 0 } : shortestPath(adjacency, origin.id, destination.id, constraints);
+    if (!best) {
+        const active = activeConstraints(constraints).map(name => describeConstraint(name, constraints)).join(', ');
+        result.blockingConstraints = findBlockingConstraints(adjacency, origin.id, destination.id, constraints);
+        const blocking = result.blockingConstraints.map(names => names.map(name => describeConstraint(name, constraints)).join(' and '));
+        result.message = `No route from ${origin.name} to ${destination.name} meets all the constraints (${active}).`;
+        if (result.blockingConstraints.length === 0) {
+            result.message += ` The ${graph.name} map has no route between them even without constraints.`;
+        } else if (result.blockingConstraints[0].length === 1) {
+            result.message += ` A route exists without: ${blocking.join(' or ')}.`;
+        } else {
+            result.message += ` No single constraint blocks it, several do together. A route exists without: ${blocking.map(names => `(${names})`).join(' or ')}.`;
+        }
+        return result;
+    }
+
+    for (const name of samePlace ? [] : activeConstraints(constraints)) {
+        const relaxed = shortestPath(adjacency, origin.id, destination.id, { ...constraints, [name]: undefined });
+        if (!relaxed || relaxed.lengthMeters >= best.lengthMeters) continue;
+        const avoided = [...new Set(relaxed.path.map(step => describeViolation(name, step, constraints)).filter((v): v is string => v !== null))];
+        result.detours.push({ constraint: name, extraMeters: best.lengthMeters - relaxed.lengthMeters, avoided });
+    }
+
+    result.found = true;
+    result.totalDistanceMeters = best.lengthMeters;
+    result.steps = buildSteps(best.path, destination);
+    const detours = result.detours.map(d => `${describeConstraint(d.constraint, constraints)} (+${d.extraMeters} m)`);
+    result.message = `${best.lengthMeters} m from ${origin.name} to ${destination.name}`
+        + (detours.length > 0 ? `, with detours for ${detours.join(', ')}.` : ".");
+    return result;
+}
+
+/**
+ * The route as console lines: summary, numbered steps and the reasons for detours.
+ */
+export function formatRoute(result: RouteResult): string[] {
+    if (!result.found) return [result.message];
+    const lines = [result.message];
+    result.steps.forEach((step, index) => {
+        const distance = step.distanceMeters > 0 ? ` (${step.distanceMeters} m)` : "";
+        const notes = step.notes.length > 0 ? ` [${step.notes.join(', ')}]` : "";
+        lines.push(`${index + 1}. ${step.instruction}${distance}${notes}`);
+    });
+    for (const detour of result.detours) {
+        lines.push(`Detour (+${detour.extraMeters} m) to avoid ${detour.avoided.join(', ')}`);
+    }
+    return lines;
+}
@@ -4,6 +4,7 @@ import {
     ChatSession,
     SchemaType,
     Part,
+    FunctionCall,
     FunctionDeclaration,
     FunctionResponsePart,
     GenerateContentRequest
@@ -230,6 +231,31 @@ const answerUserQueryTool: FunctionDeclaration = {
     }
 };
 
+// --- Function Call Execution ---
+
+/**
+ * Runs one function call requested by the model and returns the response to send back.
+ * Errors (including unknown functions) become an error response for that call only.
+ */
+async function executeFunctionCall(fnCall: FunctionCall, model: GenerativeModel): Promise<FunctionResponsePart> {
+    const { name, args } = fnCall;
+    let apiResponse: any;
+    try {
+        if (name === "find_relevant_timestamps") {
+            apiResponse = await find_relevant_timestamps(args as { userQuery: string }, model);
+        } else if (name === "answer_user_query") {
+            apiResponse = await answer_user_query(args as { userQuery: string, relevantTimestamps: string[] }, model); // Pass model instance
+        } else {
+            console.warn(`Received unexpected function call: ${name}`);
+            apiResponse = { error: `Unknown function "${name}".` };
+        }
+    } catch (error: any) {
+        console.error(`Error running function call ${name}:`, error);
+        apiResponse = { error: error.message ?? String(error) };
+    }
+    return { functionResponse: { name, response: apiResponse } };
+}
+
 // --- System Instruction Definition ---
 const SYSTEM_INSTRUCTION = `You are a helpful video assistant. You can answer questions about the video content.
 You have access to text descriptions of the video, but not the video frames directly initially.
@@ -286,9 +312,7 @@ async function main() {
         while (loopCount < MAX_LOOPS) {
             loopCount++;
             const response = result.response;
-            const functionCalls = response.candidates?.[0]?.content?.parts
-                ?.filter(part => !!part.functionCall)
-                .map(part => part.functionCall);
+            const functionCalls = response.functionCalls();
 
             if (!functionCalls || functionCalls.length === 0) {
                 // No function call, break loop and respond with text
@@ -296,41 +320,17 @@ async function main() {
                 break;
             }
 
-            // We got function call(s) - process the first one
-            // (Gemini currently only returns one function call per turn)
-            const fnCall = functionCalls[0];
-            const { name, args } = fnCall;
-            console.log(`\nAssistant requested Function Call ${loopCount}: ${name}`);
-
-            let apiResponse: any;
-            let functionResponsePart: FunctionResponsePart | null = null;
-
-            // Execute the corresponding local function
-            if (name === "find_relevant_timestamps") {
-                apiResponse = await find_relevant_timestamps(args as { userQuery: string }, transactionalModel);
-                functionResponsePart = {
-                    functionResponse: { name, response: apiResponse }
-                };
-            } else if (name === "answer_user_query") {
-                apiResponse = await answer_user_query(args as { userQuery: string, relevantTimestamps: string[] }, transactionalModel); // Pass model instance
-                functionResponsePart = {
-                    functionResponse: { name, response: apiResponse }
-                };
-            } else {
-                console.warn(`Received unexpected function call: ${name}`);
-                // Optional: Send error back to model? For now, just break loop.
-                break;
-            }
-
-            // Send the function response back to the model
-            if (functionResponsePart) {
-                console.log(`Sending Function Response [${name}] back to model...`);
-                result = await chat.sendMessage([functionResponsePart]);
-            } else {
-                // Should not happen if name matched
-                console.error("Error preparing function response part.");
-                break;
-            }
+            // We got function call(s) - the model may request several in the same turn.
+            // Both tools only read data, so all the calls can run concurrently.
+            console.log(`\nAssistant requested Function Calls (round ${loopCount}): ${functionCalls.map(c => c.name).join(', ')}`);
+            // Promise.all keeps the responses in the same order as the calls
+            const functionResponseParts = await Promise.all(
+                functionCalls.map(fnCall => executeFunctionCall(fnCall, transactionalModel))
+            );
+
+            // Send all the function responses back to the model in a single message
+            console.log(`Sending ${functionResponseParts.length} Function Response(s) back to model...`);
+            result = await chat.sendMessage(functionResponseParts);
 
             // Check if max loops reached (safety break)
             if(loopCount >= MAX_LOOPS) {
@@ -0,0 +1,102 @@
+import { Schema, SchemaType } from "@google/generative-ai";
+
+// --- Interfaces ---
+export interface ClarificationOptions {
+    // Below this confidence (0-1), a clarifying question is returned with the rephrased query
+    threshold: number;
+}
+
+export interface Interpretation {
+    rephrasedQuery: string;
+    confidence: number; // 0-1
+}
+
+// How sure the model is of the rephrased query, returned in clarification mode
+export interface Clarification {
+    confidence: number; // 0-1, that the rephrased query is what the user meant
+    alternatives: Interpretation[]; // Other interpretations that were considered, most likely first
+    // Set when the confidence is below the threshold: ask the user this instead of routing. The
+    // rephrased query is still returned, so the caller can also resolve it automatically.
+    question: string | null;
+}
+
+export const DEFAULT_CLARIFICATION_OPTIONS: ClarificationOptions = {
+    threshold: 0.7,
+};
+
+// Instruction added to the prompt in clarification mode
+export const CLARIFICATION_INSTRUCTION = `**Rate Your Confidence:** Give your "confidence" (0 to 1) that the rephrased query is what the user meant. List the other interpretations you considered in "alternatives" (e.g. when "there" could refer to two places in the conversation), each with its own confidence, most likely first. Write a short "clarifyingQuestion" that would tell the interpretations apart (e.g. "Do you mean the Pacific Science Center or the Space Needle?"), or null when there is no other interpretation.`;
+
+const isConfidence = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/**
+ * Schema properties added to the response in clarification mode.
+ */
+export function buildClarificationSchemaProperties(): Record<string, Schema> {
+    return {
+        confidence: {
+            type: SchemaType.NUMBER,
+            description: "Confidence (0 to 1) that the rephrased query is what the user meant.",
+        },
+        alternatives: {
+            type: SchemaType.ARRAY,
+            description: "Other interpretations that were considered, most likely first. Empty when the query is unambiguous.",
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    rephrasedQuery: { type: SchemaType.STRING, description: "The query rephrased with this interpretation." },
+                    confidence: { type: SchemaType.NUMBER, description: "Confidence (0 to 1) in this interpretation." },
+                },
+                required: ['rephrasedQuery', 'confidence'],
+            },
+        },
+        clarifyingQuestion: {
+            type: SchemaType.STRING,
+            description: "A short question telling the interpretations apart. Null when there is no other interpretation.",
+            nullable: true,
+        },
+    };
+}
+
+/**
+ * Validates the clarification fields of a response and decides whether to ask. A missing or
+ * invalid confidence counts as 0, so an unrated rewrite is never taken as certain. When a question
+ * is needed but the model wrote none, one is built from the interpretations.
+ */
+export function validateClarification(raw: any, rephrasedQuery: string, options: ClarificationOptions): Clarification {
+    let confidence = 0;
+    if (isConfidence(raw?.confidence)) {
+        confidence = raw.confidence;
+    } else {
+        console.warn("Missing or invalid confidence in the response, treating it as 0:", JSON.stringify(raw?.confidence));
+    }
+    const alternatives: Interpretation[] = (Array.isArray(raw?.alternatives) ? raw.alternatives : [])
+        .filter((a: any) => typeof a?.rephrasedQuery === "string" && a.rephrasedQuery.trim() && isConfidence(a.confidence))
+        .map((a: any) => ({ rephrasedQuery: a.rephrasedQuery.trim(), confidence: a.confidence }))
+        .sort((a: Interpretation, b: Interpretation) => b.confidence - a.confidence);
+
+    let question: string | null = null;
+    if (confidence < options.threshold) {
+        if (typeof raw?.clarifyingQuestion === "string" && raw.clarifyingQuestion.trim()) {
+            question = raw.clarifyingQuestion.trim();
+        } else {
+            const choices = [rephrasedQuery, ...alternatives.map(a => a.rephrasedQuery)];
+            question = choices.length > 1
+                ? `Did you mean: ${choices.map(c => `"${c}"`).join(' or ')}?`
+                : `Did you mean: "${rephrasedQuery}"?`;
+        }
+    }
+    return { confidence, alternatives, question };
+}
+
+/**
+ * Lines describing the confidence and the alternatives, e.g. for the console.
+ */
+export function formatClarification(clarification: Clarification): string[] {
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    return [
+        `Confidence: ${percent(clarification.confidence)}`,
+        ...clarification.alternatives.map(a => `Alternative (${percent(a.confidence)}): ${a.rephrasedQuery}`),
+    ];
+}
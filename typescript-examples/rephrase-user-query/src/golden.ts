@@ -0,0 +1,325 @@
+import {
+    GenerateContentRequest,
+    GenerateContentResult,
+    Part,
+    SingleRequestOptions
+} from "@google/generative-ai";
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { createInMemoryContextProviders } from '../../shared/contextProviders';
+import { AccessibilityConstraints, AttributionSource, RouteRequest, SurfacePreference, TravelMode } from '../../shared/routeRequest';
+import { ContentGenerator, QueryContext, RephrasedQueryResponse, refineQueryWithContext } from './refineQuery';
+import { formatClarification } from './clarification';
+
+// --- Interfaces ---
+// Properties the response to a golden case must have. Every property is checked by one rule.
+export interface GoldenExpectations {
+    routeRequest?: boolean; // Whether a route request must (true) or must not (false) be returned
+    rephrasedIncludes?: string[]; // Phrases the rephrased query must contain (case-insensitive), e.g. "route"
+    rephrasedExcludes?: string[]; // Phrases it must not contain, e.g. the typo "Ruth"
+    origin?: string; // Text the origin must contain (case-insensitive)
+    destination?: string;
+    travelMode?: TravelMode;
+    constraints?: {
+        maxGradientPercent?: number;
+        avoidStairs?: boolean;
+        requireCurbCuts?: boolean;
+        surface?: SurfacePreference;
+    };
+    // Where a field must have been inferred from, e.g. { "avoidStairs": "profile" }
+    sources?: Partial<Record<"origin" | "destination" | "travelMode" | keyof AccessibilityConstraints, AttributionSource>>;
+    // Clarification mode only: whether a clarifying question must (true) or must not (false) be returned
+    asksClarification?: boolean;
+    alternativesInclude?: string[]; // Phrases that must appear in one of the alternative interpretations
+    detectedLanguage?: string; // ISO 639-1 code the query must be detected as, e.g. "es"
+    mixedLanguage?: boolean; // Whether the query must (true) or must not (false) be detected as mixing languages
+}
+
+export interface GoldenCase {
+    id: string;
+    description: string;
+    context: string | QueryContext; // Name of a shared context of the fixture file, or the context itself
+    query: string;
+    clarificationThreshold?: number; // Runs the case in clarification mode with this threshold
+    outputLanguage?: string; // Runs the case with this routing-engine language
+    expect: GoldenExpectations;
+}
+
+interface GoldenFixtures {
+    contexts?: Record<string, QueryContext>;
+    cases: GoldenCase[];
+}
+
+export interface CheckResult {
+    rule: string;
+    passed: boolean;
+    detail: string;
+}
+
+export interface CaseResult {
+    id: string;
+    description: string;
+    query: string;
+    passed: boolean;
+    error?: string; // The case couldn't be run, e.g. no recording or a failed model call
+    staleRecording: boolean; // The recording was made with a different prompt
+    checks: CheckResult[];
+    response: RephrasedQueryResponse | null;
+}
+
+export type GoldenMode = "replay" | "live" | "record";
+
+export interface GoldenReport {
+    generatedAt: string;
+    fixtures: string;
+    mode: GoldenMode;
+    summary: { total: number, passed: number, failed: number, errors: number, staleRecordings: number };
+    cases: CaseResult[];
+}
+
+// One recorded model response, keyed by case id in the recordings file
+interface Recording {
+    promptHash: string;
+    responseText: string;
+}
+
+export const DEFAULT_GOLDEN_CASES_PATH = path.join(__dirname, '../golden', 'cases.json');
+export const DEFAULT_GOLDEN_RECORDINGS_PATH = path.join(__dirname, '../golden', 'recordings.json');
+
+function hashPrompt(request: GenerateContentRequest | string | Array<string | Part>): string {
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Model stand-in for the golden set. In "replay" mode it answers with the recorded response of the
+ * current case, without any network call. In "live" and "record" modes it forwards the call to the
+ * real model, and "record" also keeps the response so it can be saved as the new recording.
+ */
+export class RecordingModel implements ContentGenerator {
+    private currentCaseId: string | null = null;
+    lastCallStale = false;
+
+    constructor(
+        private readonly mode: GoldenMode,
+        private readonly recordings: Map<string, Recording>,
+        private readonly liveModel: ContentGenerator | null
+    ) {}
+
+    startCase(caseId: string): void {
+        this.currentCaseId = caseId;
+        this.lastCallStale = false;
+    }
+
+    async generateContent(
+        request: GenerateContentRequest | string | Array<string | Part>,
+        requestOptions?: SingleRequestOptions
+    ): Promise<GenerateContentResult> {
+        if (!this.currentCaseId) {
+            throw new Error("generateContent was called outside of a golden case.");
+        }
+        const promptHash = hashPrompt(request);
+        if (this.mode === "replay") {
+            const recording = this.recordings.get(this.currentCaseId);
+            if (!recording) {
+                throw new Error(`No recording for case ${this.currentCaseId}; run the golden set with --record first.`);
+            }
+            this.lastCallStale = recording.promptHash !== promptHash;
+            return { response: textResponse(recording.responseText) };
+        }
+        if (!this.liveModel) {
+            throw new Error(`The ${this.mode} mode needs a model.`);
+        }
+        const result = await this.liveModel.generateContent(request, requestOptions);
+        if (this.mode === "record") {
+            this.recordings.set(this.currentCaseId, { promptHash, responseText: result.response.text() });
+        }
+        return result;
+    }
+
+    toJSON(): Record<string, Recording> {
+        return Object.fromEntries([...this.recordings.entries()].sort(([a], [b]) => a.localeCompare(b)));
+    }
+}
+
+/**
+ * Response in the shape the SDK returns, built from a recorded text.
+ */
+function textResponse(text: string): GenerateContentResult["response"] {
+    return {
+        candidates: [{ index: 0, content: { role: "model", parts: [{ text }] } }],
+        text: () => text,
+        functionCall: () => undefined,
+        functionCalls: () => undefined,
+    };
+}
+
+export async function loadRecordings(filePath: string): Promise<Map<string, Recording>> {
+    try {
+        return new Map(Object.entries(JSON.parse(await fs.readFile(filePath, 'utf-8'))));
+    } catch (error: any) {
+        if (error.code === "ENOENT") return new Map();
+        throw error;
+    }
+}
+
+/**
+ * Loads the golden cases and resolves the names of shared contexts.
+ */
+export async function loadGoldenCases(filePath: string): Promise<Array<GoldenCase & { context: QueryContext }>> {
+    const fixtures = JSON.parse(await fs.readFile(filePath, 'utf-8')) as GoldenFixtures;
+    if (!fixtures || !Array.isArray(fixtures.cases) || fixtures.cases.length === 0) {
+        throw new Error(`${filePath} must have a non-empty "cases" list.`);
+    }
+    const ids = new Set<string>();
+    return fixtures.cases.map(goldenCase => {
+        if (!goldenCase.id || ids.has(goldenCase.id)) {
+            throw new Error(`${filePath}: every case needs a unique "id" (${JSON.stringify(goldenCase.id)}).`);
+        }
+        ids.add(goldenCase.id);
+        const context = typeof goldenCase.context === "string" ? fixtures.contexts?.[goldenCase.context] : goldenCase.context;
+        if (!context) {
+            throw new Error(`${filePath}: case ${goldenCase.id} refers to an unknown context ${JSON.stringify(goldenCase.context)}.`);
+        }
+        return { ...goldenCase, context };
+    });
+}
+
+function includesText(actual: string | undefined, expected: string): boolean {
+    return actual !== undefined && actual.toLowerCase().includes(expected.toLowerCase());
+}
+
+/**
+ * Scores a response against the expected properties of its case, one check per property.
+ */
+export function checkExpectations(response: RephrasedQueryResponse, expect: GoldenExpectations): CheckResult[] {
+    const checks: CheckResult[] = [];
+    const check = (rule: string, passed: boolean, detail: string) => checks.push({ rule, passed, detail });
+    const route: RouteRequest | null = response.routeRequest;
+
+    if (expect.routeRequest !== undefined) {
+        check("routeRequest", (route !== null) === expect.routeRequest,
+            expect.routeRequest ? (route ? "route request returned" : "no route request returned") : (route ? "unexpected route request returned" : "no route request, as expected"));
+    }
+    for (const phrase of expect.rephrasedIncludes ?? []) {
+        check(`rephrasedIncludes "${phrase}"`, includesText(response.rephrasedQuery, phrase), `rephrased query: "${response.rephrasedQuery}"`);
+    }
+    for (const phrase of expect.rephrasedExcludes ?? []) {
+        check(`rephrasedExcludes "${phrase}"`, !includesText(response.rephrasedQuery, phrase), `rephrased query: "${response.rephrasedQuery}"`);
+    }
+    if (expect.origin !== undefined) {
+        check("origin", includesText(route?.origin?.value, expect.origin), `origin: ${JSON.stringify(route?.origin?.value ?? null)}`);
+    }
+    if (expect.destination !== undefined) {
+        check("destination", includesText(route?.destination?.value, expect.destination), `destination: ${JSON.stringify(route?.destination?.value ?? null)}`);
+    }
+    if (expect.travelMode !== undefined) {
+        check("travelMode", route?.travelMode?.value === expect.travelMode, `travel mode: ${JSON.stringify(route?.travelMode?.value ?? null)}`);
+    }
+    for (const [name, expected] of Object.entries(expect.constraints ?? {})) {
+        const actual = route?.constraints[name as keyof AccessibilityConstraints]?.value;
+        check(`constraints.${name}`, actual === expected, `${name}: ${JSON.stringify(actual ?? null)}`);
+    }
+    for (const [name, expected] of Object.entries(expect.sources ?? {})) {
+        const field = name === "origin" || name === "destination" || name === "travelMode"
+            ? route?.[name]
+            : route?.constraints[name as keyof AccessibilityConstraints];
+        check(`sources.${name}`, field?.source === expected, `${name} source: ${JSON.stringify(field?.source ?? null)}`);
+    }
+    if (expect.detectedLanguage !== undefined) {
+        check("detectedLanguage", response.detectedLanguage.code === expect.detectedLanguage, `detected language: ${JSON.stringify(response.detectedLanguage.code)}`);
+    }
+    if (expect.mixedLanguage !== undefined) {
+        check("mixedLanguage", response.detectedLanguage.mixed === expect.mixedLanguage, `mixed: ${response.detectedLanguage.mixed}`);
+    }
+    const clarification = response.clarification;
+    const clarificationDetail = clarification
+        ? [...formatClarification(clarification), `question: ${JSON.stringify(clarification.question)}`].join('; ')
+        : "no clarification (the case must set clarificationThreshold)";
+    if (expect.asksClarification !== undefined) {
+        check("asksClarification", !!clarification && (clarification.question !== null) === expect.asksClarification, clarificationDetail);
+    }
+    for (const phrase of expect.alternativesInclude ?? []) {
+        check(`alternativesInclude "${phrase}"`, !!clarification?.alternatives.some(a => includesText(a.rephrasedQuery, phrase)), clarificationDetail);
+    }
+    return checks;
+}
+
+/**
+ * Runs every golden case through refineQueryWithContext with the given model stand-in and scores it.
+ * In replay mode, a stale recording fails its case unless `allowStale` is set: the recording no
+ * longer tells anything about the current prompt, so passing would hide a prompt change.
+ */
+export async function runGoldenSet(
+    model: RecordingModel,
+    cases: Array<GoldenCase & { context: QueryContext }>,
+    mode: GoldenMode,
+    fixturesPath: string,
+    allowStale = false
+): Promise<GoldenReport> {
+    const results: CaseResult[] = [];
+    for (const goldenCase of cases) {
+        model.startCase(goldenCase.id);
+        const result: CaseResult = {
+            id: goldenCase.id,
+            description: goldenCase.description,
+            query: goldenCase.query,
+            passed: false,
+            staleRecording: false,
+            checks: [],
+            response: null,
+        };
+        try {
+            const clarification = goldenCase.clarificationThreshold !== undefined ? { threshold: goldenCase.clarificationThreshold } : undefined;
+            result.response = await refineQueryWithContext(model, goldenCase.query, createInMemoryContextProviders(goldenCase.context), {
+                clarification,
+                outputLanguage: goldenCase.outputLanguage,
+            });
+            result.staleRecording = model.lastCallStale;
+            if (!result.response) {
+                result.error = "refineQueryWithContext returned no response (see the logs above).";
+            } else {
+                result.checks = checkExpectations(result.response, goldenCase.expect);
+                if (result.staleRecording && !allowStale) {
+                    result.checks.push({ rule: "recording matches the current prompt", passed: false, detail: "re-record with --record, or pass --allow-stale" });
+                }
+                result.passed = result.checks.every(c => c.passed);
+            }
+        } catch (error: any) {
+            result.error = error.message ?? String(error);
+        }
+        results.push(result);
+    }
+
+    return {
+        generatedAt: new Date().toISOString(),
+        fixtures: fixturesPath,
+        mode,
+        summary: {
+            total: results.length,
+            passed: results.filter(r => r.passed).length,
+            failed: results.filter(r => !r.passed && !r.error).length,
+            errors: results.filter(r => r.error).length,
+            staleRecordings: results.filter(r => r.staleRecording).length,
+        },
+        cases: results,
+    };
+}
+
+export function printGoldenReport(report: GoldenReport): void {
+    console.log(`\n--- Golden Set (${report.mode}) ---`);
+    for (const result of report.cases) {
+        const status = result.error ? "ERROR" : result.passed ? "PASS " : "FAIL ";
+        console.log(`${status} ${result.id}: ${result.description}${result.staleRecording ? " [stale recording]" : ""}`);
+        if (result.error) console.log(`        ${result.error}`);
+        for (const check of result.checks.filter(c => !c.passed)) {
+            console.log(`        ✗ ${check.rule} (${check.detail})`);
+        }
+    }
+    const { total, passed, failed, errors, staleRecordings } = report.summary;
+    console.log(`\n${passed}/${total} passed, ${failed} failed, ${errors} errors`);
+    if (staleRecordings > 0) {
+        console.log(`${staleRecordings} recordings were made with a different prompt; re-record them with --record to test the current prompt.`);
+    }
+    console.log("---------------------------\n");
+}
@@ -1,11 +1,94 @@
-import { GoogleGenerativeAI, GenerativeModel, SchemaType } from "@google/generative-ai";
+import { GoogleGenerativeAI } from "@google/generative-ai";
 import * as readline from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+    DEFAULT_GOLDEN_CASES_PATH,
+    DEFAULT_GOLDEN_RECORDINGS_PATH,
+    GoldenMode,
+    RecordingModel,
+    loadGoldenCases,
+    loadRecordings,
+    printGoldenReport,
+    runGoldenSet
+} from './golden';
+import { ContextProviders, InMemoryHistoryProvider, createFileContextProviders, createInMemoryContextProviders } from '../../shared/contextProviders';
+import { DEFAULT_HISTORY_WINDOW_OPTIONS, HistoryManager } from '../../shared/historyManager';
+import { DEFAULT_PRIVACY_POLICY_PATH, Redactor, loadPrivacyPolicy } from '../../shared/privacy';
+import { formatRouteRequest } from '../../shared/routeRequest';
+import { DEFAULT_CLARIFICATION_OPTIONS, ClarificationOptions, formatClarification } from './clarification';
+import { formatDetectedLanguage } from './language';
+import { QueryContext, RephrasedQueryResponse, refineQueryWithContext } from './refineQuery';
 
+const REPORTS_DIR = path.join(__dirname, '../reports');
 
-interface RephrasedQueryResponse {
-    rephrasedQuery: string;
-    reason: string;
+interface GoldenOptions {
+    mode: GoldenMode;
+    casesPath: string;
+    recordingsPath: string;
+    outputPath: string;
+    allowStale: boolean; // Replay: pass cases whose recording was made with a different prompt
+}
+
+/**
+ * Parses the arguments of the golden-set mode:
+ * golden [--live | --record] [--cases cases.json] [--recordings recordings.json] [--output report.json] [--allow-stale]
+ */
+function parseGoldenArgs(args: string[]): GoldenOptions {
+    const options: GoldenOptions = {
+        mode: "replay",
+        casesPath: DEFAULT_GOLDEN_CASES_PATH,
+        recordingsPath: DEFAULT_GOLDEN_RECORDINGS_PATH,
+        outputPath: path.join(REPORTS_DIR, `golden-${new Date().toISOString().replace(/[:.]/g, '-')}.json`),
+        allowStale: false,
+    };
+    for (let i = 0; i < args.length; i++) {
+        const value = args[i + 1];
+        if (args[i] === "--live" || args[i] === "--record") {
+            options.mode = args[i] === "--live" ? "live" : "record";
+        } else if (args[i] === "--allow-stale") {
+            options.allowStale = true;
+        } else if (args[i] === "--cases" && value) {
+            options.casesPath = value;
+            i++;
+        } else if (args[i] === "--recordings" && value) {
+            options.recordingsPath = value;
+            i++;
+        } else if (args[i] === "--output" && value) {
+            options.outputPath = value;
+            i++;
+        } else {
+            console.error(`Invalid argument: ${args[i]}`);
+            console.error("Usage: npm run golden -- [--live | --record] [--cases cases.json] [--recordings recordings.json] [--output report.json] [--allow-stale]");
+            process.exit(1);
+        }
+    }
+    return options;
+}
+
+/**
+ * Value of an option such as "--context-dir <dir>", or undefined when it isn't given.
+ */
+function getOption(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    if (index === -1) return undefined;
+    const value = process.argv[index + 1];
+    if (!value) {
+        console.error(`Missing value after ${name}.`);
+        process.exit(1);
+    }
+    return value;
+}
+
+/**
+ * Asks the user a question in the console and returns the trimmed answer.
+ */
+async function askUser(question: string): Promise<string> {
+    const rl = readline.createInterface({ input, output });
+    const answer = await rl.question(question);
+    rl.close();
+    return answer.trim();
 }
 
 async function getApiKey(): Promise<string> {
@@ -23,7 +106,9 @@ async function getApiKey(): Promise<string> {
     return apiKey.trim();
 }
 
-const CONTEXT = {
+// Context used when no --context-dir is given. With --context-dir, the location, profile and
+// history are read from location.txt, profile.txt and history.json in that directory instead.
+const CONTEXT: QueryContext = {
     currentLocation: "Near Museum of Pop Culture (MoPOP), Seattle",
     conversationHistory: [
         { role: "user", text: "Tell me more about the Pacific Science Center. Is it good for kids?" },
@@ -34,111 +119,75 @@ const CONTEXT = {
 
 
 /**
- * Uses the LLM to correct and augment a user query based on context.
- * @param model The GenerativeModel instance.
- * @param userQuery The original user query.
- * @param context The application context including profile and history.
- * @returns A promise resolving to the rephrased query and reason, or null on error.
+ * Runs the golden set and exits with code 1 when a case fails, so it can gate prompt changes.
+ * Replaying the recordings needs no API key.
  */
-async function refineQueryWithContext(
-    model: GenerativeModel,
-    userQuery: string,
-    context: typeof CONTEXT
-): Promise<RephrasedQueryResponse | null> {
-
-    const prompt = `
-You are an AI assistant integrated into a navigation application. Your task is to refine user queries to be more precise and actionable for the routing engine, especially considering user context like accessibility needs.
-
-Analyze the provided user query, considering the user's profile, conversation history, and potentially relevant location information.
-
-**Instructions:**
-1.  **Correct Errors:** Identify and correct potential spelling or grammatical errors that make the query unclear or nonsensical within a navigation context (e.g., correcting a word if it seems like a typo for a common navigation term like 'route' or 'directions', based on the surrounding words and conversation). Only make corrections if they significantly improve clarity or likely match user intent based on context.
-2.  **Resolve Ambiguity:** Clarify ambiguous references (like "there", "it", "that place") using the conversation history or other contextual clues to determine the specific location or subject the user means.
-3.  **Augment for Precision:** Enhance the query by adding relevant details derived from the provided context (user profile, conversation). The goal is to make the query specific enough for a detailed routing engine. Focus particularly on incorporating accessibility requirements mentioned in the user profile if applicable to the query. For example, adding terms like 'wheelchair accessible' or specifying needs like 'avoid stairs' if the profile indicates this and the query is about a route.
-4.  **Formulate Query:** Based on the corrections and augmentations, formulate a clear, specific query suitable for querying a detailed map routing engine.
-5.  **Explain Changes:** Provide the refined query and a brief explanation for the changes made (corrections, clarifications, added details from context) in the specified JSON format.
-
-**Context:**
-
-[User Profile]
-${context.userProfile}
-
-[Conversation History]
-${context.conversationHistory.map(msg => `${msg.role}: ${msg.text}`).join('\n')}
-
-[Potentially Relevant Location Info]
-Current Location: ${context.currentLocation}
-(Note: Use location info only if relevant to interpreting or augmenting the query, e.g., for directions 'from here'.)
-
-**User Query to Refine:**
-"${userQuery}"
+async function runGolden(options: GoldenOptions) {
+    const cases = await loadGoldenCases(options.casesPath);
+    const recordings = await loadRecordings(options.recordingsPath);
+    let liveModel = null;
+    if (options.mode !== "replay") {
+        const genAI = new GoogleGenerativeAI(await getApiKey());
+        liveModel = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    }
+    const model = new RecordingModel(options.mode, recordings, liveModel);
+    console.log(`Running ${cases.length} golden cases from ${options.casesPath} (${options.mode})...`);
+    const report = await runGoldenSet(model, cases, options.mode, options.casesPath, options.allowStale);
+    printGoldenReport(report);
 
-**Output Format (JSON):**
-{
-  "rephrasedQuery": "The precise, augmented query for the routing engine.",
-  "reason": "Brief explanation of corrections and augmentations made based on context and profile."
+    if (options.mode === "record") {
+        await fs.writeFile(options.recordingsPath, JSON.stringify(model, null, 2) + '\n', 'utf-8');
+        console.log(`Recordings saved to ${options.recordingsPath}`);
+    }
+    await fs.mkdir(path.dirname(options.outputPath), { recursive: true });
+    await fs.writeFile(options.outputPath, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`Report saved to ${options.outputPath}`);
+    if (report.summary.passed < report.summary.total) {
+        process.exit(1);
+    }
 }
-`;
 
+async function main() {
+    // Regression mode: npm run golden
+    const [mode, ...modeArgs] = process.argv.slice(2);
+    if (mode === "golden") {
+        await runGolden(parseGoldenArgs(modeArgs));
+        return;
+    }
+
+    const contextDir = getOption("--context-dir");
+    const historyBudget = Number(getOption("--history-budget") ?? DEFAULT_HISTORY_WINDOW_OPTIONS.tokenBudget);
+    if (!(historyBudget > 0)) {
+        console.error("--history-budget must be a positive number of tokens.");
+        process.exit(1);
+    }
+    const contextProviders: ContextProviders = contextDir
+        ? createFileContextProviders(contextDir)
+        : createInMemoryContextProviders(CONTEXT);
+    // The privacy policy decides what of the location and profile is sent to the model
+    const policyPath = getOption("--privacy-policy") ?? DEFAULT_PRIVACY_POLICY_PATH;
+    let redactor: Redactor;
     try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: SchemaType.OBJECT,
-                    properties: {
-                        rephrasedQuery: {
-                            type: SchemaType.STRING,
-                            description: "The precise, augmented query suitable for a routing engine."
-                        },
-                        reason: {
-                            type: SchemaType.STRING,
-                            description: "Brief explanation of corrections (typos, ambiguity) and augmentations (context, profile needs) applied."
-                        }
-                    },
-                    required: ['rephrasedQuery', 'reason'],
-                },
-            },
-        });
-        const response = result.response;
-
-         if (!response || !response.candidates || response.candidates.length === 0 || !response.candidates[0].content || !response.candidates[0].content.parts || response.candidates[0].content.parts.length === 0) {
-             console.warn("Received an empty or invalid response structure from the model.");
-             return null;
-         }
-
-        const responseText = response.candidates[0].content.parts[0].text;
-
-        if (!responseText) {
-             console.warn("No response text received from the model candidate.");
-             return null;
-         }
-
-
-        try {
-            const parsedResponse = JSON.parse(responseText) as RephrasedQueryResponse;
-            if (!parsedResponse || !parsedResponse.rephrasedQuery || !parsedResponse.reason) {
-                console.warn("Parsed JSON response is missing required fields ('rephrasedQuery', 'reason').");
-                console.log("Raw response text:", responseText);
-                return null;
-            }
-            return parsedResponse;
-        } catch (error) {
-            console.error("Error parsing JSON response:", error);
-            console.log("Raw response text:", responseText);
-            return null;
-        }
+        redactor = new Redactor(await loadPrivacyPolicy(policyPath));
     } catch (error: any) {
-        console.error("Error calling the Gemini API:", error);
-        if (error.message) {
-            console.error("Error message:", error.message);
+        console.error(error.message);
+        process.exit(1);
+    }
+
+    // With --clarify, ambiguous queries are answered with a question instead of a guessed route
+    let clarification: ClarificationOptions | undefined;
+    if (process.argv.includes("--clarify")) {
+        const threshold = Number(getOption("--clarify-threshold") ?? DEFAULT_CLARIFICATION_OPTIONS.threshold);
+        if (!(threshold >= 0 && threshold <= 1)) {
+            console.error("--clarify-threshold must be a number between 0 and 1.");
+            process.exit(1);
         }
-        return null;
+        clarification = { threshold };
     }
-}
 
-async function main() {
+    // The routing engine's language; without it, queries are rephrased in their own language
+    const outputLanguage = getOption("--output-language")?.toLowerCase();
+
     const apiKey = await getApiKey();
     const defaultQuery = "okey, whats the best Ruth to get there";
 
@@ -153,16 +202,54 @@ async function main() {
     console.log("\nInitializing Model...");
     const genAI = new GoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    // Older messages beyond the budget are summarized with the same model
+    const historyManager = new HistoryManager(
+        async prompt => (await model.generateContent(prompt)).response.text(),
+        { tokenBudget: historyBudget }
+    );
 
     console.log("Refining query using context...");
-    const rephrasedQueryResult = await refineQueryWithContext(model, userQuery, CONTEXT);
+    let rephrasedQueryResult: RephrasedQueryResponse | null = await refineQueryWithContext(model, userQuery, contextProviders, { historyManager, redactor, clarification, outputLanguage });
+    // This surface asks: the question and the answer become part of the history and the answer is refined in turn
+    const question = rephrasedQueryResult?.clarification?.question;
+    let clarificationAnswer: string | null = null;
+    if (question) {
+        console.log("\n--- Clarification Needed ---");
+        formatClarification(rephrasedQueryResult!.clarification!).forEach(line => console.log(line));
+        const answer = await askUser(`${question} `);
+        if (answer) {
+            // The question only goes into a copy of the history: with --context-dir, history.json is
+            // the example conversation and would otherwise grow on every run
+            const history = new InMemoryHistoryProvider(await contextProviders.history.get());
+            await history.append({ role: "user", text: userQuery }, { role: "assistant", text: question });
+            clarificationAnswer = answer;
+            console.log("Refining the answer using context...");
+            rephrasedQueryResult = await refineQueryWithContext(model, clarificationAnswer, { ...contextProviders, history }, { historyManager, redactor, clarification, outputLanguage });
+        } else {
+            console.log("No answer, using the most likely interpretation.");
+        }
+    }
 
     if (rephrasedQueryResult) {
         console.log("\n--- Query Refinement Result ---");
         console.log("Original Query: ", userQuery);
+        if (clarificationAnswer !== null) {
+            console.log("Clarification:  ", `${question} -> ${clarificationAnswer}`);
+        }
         console.log("-----------------------------");
         console.log("Rephrased Query:", rephrasedQueryResult.rephrasedQuery);
         console.log("Reasoning:      ", rephrasedQueryResult.reason);
+        console.log("Language:       ", formatDetectedLanguage(rephrasedQueryResult.detectedLanguage));
+        if (rephrasedQueryResult.clarification) {
+            formatClarification(rephrasedQueryResult.clarification).forEach(line => console.log(line));
+        }
+        console.log("-----------------------------");
+        if (rephrasedQueryResult.routeRequest) {
+            console.log("Route Request:");
+            formatRouteRequest(rephrasedQueryResult.routeRequest).forEach(line => console.log(`  ${line}`));
+        } else {
+            console.log("Route Request:   (the query doesn't ask for a route)");
+        }
         console.log("---------------------------\n");
     } else {
         console.log("\nFailed to refine the query. Please check console logs for errors.\n");
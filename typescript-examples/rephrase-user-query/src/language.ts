@@ -0,0 +1,51 @@
+import { ObjectSchema, SchemaType } from "@google/generative-ai";
+
+// --- Interfaces ---
+export interface DetectedLanguage {
+    code: string; // ISO 639-1 code, e.g. "es"; the main language when the query mixes languages
+    mixed: boolean; // Whether the query mixes languages, e.g. Spanish with English words (place names don't count)
+}
+
+// Returned when the model reports no valid language
+export const UNDETERMINED_LANGUAGE = "und";
+
+const LANGUAGE_CODE = /^[a-z]{2,3}$/;
+
+/**
+ * Instruction for the language of the rephrased query: the language of the user query, or the
+ * language of the routing engine when one is configured.
+ */
+export function buildLanguageInstruction(outputLanguage?: string): string {
+    const target = outputLanguage
+        ? `in the language of the routing engine ("${outputLanguage}"), whatever the language of the query`
+        : `in the same language as the user query (its main language when it mixes languages)`;
+    return `**Keep the Language:** Report the language of the user query in "detectedLanguage" as an ISO 639-1 code (e.g. "en", "es", "pt") and whether it mixes languages. Write the rephrased query ${target}. Keep place names as they are named in the query or context, never translate them (e.g. "Space Needle" and "Pike Place Market" stay in English in a Spanish query).`;
+}
+
+export function buildDetectedLanguageSchema(): ObjectSchema {
+    return {
+        type: SchemaType.OBJECT,
+        description: "Language of the user query.",
+        properties: {
+            code: { type: SchemaType.STRING, description: "ISO 639-1 code of the (main) language of the query, e.g. 'en', 'es', 'pt'." },
+            mixed: { type: SchemaType.BOOLEAN, description: "Whether the query mixes languages. Place names don't count." },
+        },
+        required: ['code', 'mixed'],
+    };
+}
+
+/**
+ * Validates the detected language returned by the model; an invalid code becomes "und" (with a warning).
+ */
+export function validateDetectedLanguage(raw: any): DetectedLanguage {
+    const code = typeof raw?.code === "string" ? raw.code.trim().toLowerCase() : "";
+    if (!LANGUAGE_CODE.test(code)) {
+        console.warn("Missing or invalid detected language in the response:", JSON.stringify(raw));
+        return { code: UNDETERMINED_LANGUAGE, mixed: false };
+    }
+    return { code, mixed: raw.mixed === true };
+}
+
+export function formatDetectedLanguage(language: DetectedLanguage): string {
+    return language.mixed ? `${language.code} (mixed with other languages)` : language.code;
+}
@@ -0,0 +1,186 @@
+import { GenerativeModel, SchemaType } from "@google/generative-ai";
+import { ContextProviders, ContextSnapshot, readContext } from '../../shared/contextProviders';
+import { HistoryManager, formatHistoryWindow } from '../../shared/historyManager';
+import { PLACEHOLDER_INSTRUCTION, Redactor } from '../../shared/privacy';
+import { RouteRequest, validateRouteRequest } from '../../shared/routeRequest';
+import {
+    CLARIFICATION_INSTRUCTION,
+    Clarification,
+    ClarificationOptions,
+    buildClarificationSchemaProperties,
+    validateClarification
+} from './clarification';
+import { DetectedLanguage, buildDetectedLanguageSchema, buildLanguageInstruction, validateDetectedLanguage } from './language';
+import { buildRouteRequestSchema } from './routeRequest';
+
+// --- Interfaces ---
+// The part of the model used here, so the golden set can pass a recorded stand-in
+export type ContentGenerator = Pick<GenerativeModel, "generateContent">;
+
+// Location, profile and history as read from the context providers for one query
+export type QueryContext = ContextSnapshot;
+
+export interface RephrasedQueryResponse {
+    rephrasedQuery: string;
+    reason: string;
+    routeRequest: RouteRequest | null; // Null when the query doesn't ask for a route
+    detectedLanguage: DetectedLanguage;
+    clarification?: Clarification; // Only in clarification mode
+}
+
+export interface RefineQueryOptions {
+    // Keeps the history in the prompt within its token budget by summarizing older messages
+    historyManager?: HistoryManager;
+    // Masks PII and applies the privacy policy to the query and context before the prompt is built;
+    // the placeholders are restored in the response
+    redactor?: Redactor;
+    // Clarification mode: the response also rates its confidence, lists the alternative
+    // interpretations and, below the threshold, has a clarifying question
+    clarification?: ClarificationOptions;
+    // ISO 639-1 code of the routing engine's language: the query is rephrased into it. Without it,
+    // the query is rephrased in its own language.
+    outputLanguage?: string;
+}
+
+/**
+ * Uses the LLM to correct and augment a user query based on context.
+ * @param model The GenerativeModel instance (or a recorded stand-in, see golden.ts).
+ * @param userQuery The original user query.
+ * @param contextProviders Providers of the location, profile and history, read again on every call.
+ * @param options Optional history manager, redactor, clarification mode and output language, see RefineQueryOptions.
+ * @returns A promise resolving to the rephrased query, reason and route request, or null on error.
+ */
+export async function refineQueryWithContext(
+    model: ContentGenerator,
+    userQuery: string,
+    contextProviders: ContextProviders,
+    options: RefineQueryOptions = {}
+): Promise<RephrasedQueryResponse | null> {
+    const { historyManager, redactor, clarification, outputLanguage } = options;
+    const rawContext: QueryContext = await readContext(contextProviders);
+    const context = redactor ? redactor.redactContext(rawContext) : rawContext;
+    const query = redactor ? redactor.redactText(userQuery) : userQuery;
+    const conversationHistory = historyManager
+        ? formatHistoryWindow(await historyManager.window(context.conversationHistory))
+        : context.conversationHistory.map(msg => `${msg.role}: ${msg.text}`).join('\n');
+
+    const prompt = `
+You are an AI assistant integrated into a navigation application. Your task is to refine user queries to be more precise and actionable for the routing engine, especially considering user context like accessibility needs.
+
+Analyze the provided user query, considering the user's profile, conversation history, and potentially relevant location information.
+
+**Instructions:**
+1.  **Correct Errors:** Identify and correct potential spelling or grammatical errors that make the query unclear or nonsensical within a navigation context, in the language of the query (e.g., correcting a word if it seems like a typo for a common navigation term like 'route' or 'directions' in English, or 'ruta' or 'caminho' in Spanish or Portuguese, based on the surrounding words and conversation). Only make corrections if they significantly improve clarity or likely match user intent based on context.
+2.  **Resolve Ambiguity:** Clarify ambiguous references (like "there", "it", "that place") using the conversation history or other contextual clues to determine the specific location or subject the user means.
+3.  **Augment for Precision:** Enhance the query by adding relevant details derived from the provided context (user profile, conversation). The goal is to make the query specific enough for a detailed routing engine. Focus particularly on incorporating accessibility requirements mentioned in the user profile if applicable to the query. For example, adding terms like 'wheelchair accessible' or specifying needs like 'avoid stairs' if the profile indicates this and the query is about a route.
+4.  **Formulate Query:** Based on the corrections and augmentations, formulate a clear, specific query suitable for querying a detailed map routing engine.
+5.  **Explain Changes:** Provide the refined query and a brief explanation for the changes made (corrections, clarifications, added details from context) in the specified JSON format.
+6.  **Structure the Route Request:** If the query asks for a route or directions, also fill in "routeRequest" with the origin, destination, travel mode and the accessibility constraints (maximum gradient in percent, avoid stairs, require curb cuts, surface preference). For every field, give the "source" it comes from ("query", "history", "profile" or "location") and quote the words of that source as "evidence". Only fill in a field when a source supports it, otherwise use null. Set "routeRequest" to null when the query isn't about a route.
+7.  ${buildLanguageInstruction(outputLanguage)}${clarification ? `\n8.  ${CLARIFICATION_INSTRUCTION}` : ""}
+${redactor ? `\n${PLACEHOLDER_INSTRUCTION}\n` : ""}
+**Context:**
+
+[User Profile]
+${context.userProfile}
+
+[Conversation History]
+${conversationHistory}
+
+[Potentially Relevant Location Info]
+Current Location: ${context.currentLocation}
+(Note: Use location info only if relevant to interpreting or augmenting the query, e.g., for directions 'from here'.)
+
+**User Query to Refine:**
+"${query}"
+
+**Output Format (JSON):**
+{
+  "rephrasedQuery": "The precise, augmented query for the routing engine.",
+  "reason": "Brief explanation of corrections and augmentations made based on context and profile.",
+  "routeRequest": {
+    "origin": { "value": "Place name or address", "source": "query | history | profile | location", "evidence": "Quoted words of the source" },
+    "destination": { "value": "...", "source": "query | history | profile | location", "evidence": "..." },
+    "travelMode": { "value": "wheelchair | walking | transit | driving | cycling", "source": "...", "evidence": "..." },
+    "constraints": {
+      "maxGradientPercent": { "value": 5, "source": "...", "evidence": "..." },
+      "avoidStairs": { "value": true, "source": "...", "evidence": "..." },
+      "requireCurbCuts": { "value": true, "source": "...", "evidence": "..." },
+      "surface": { "value": "smooth | paved | any", "source": "...", "evidence": "..." }
+    }
+  },
+  "detectedLanguage": { "code": "en | es | pt | ...", "mixed": false }${clarification ? `,
+  "confidence": 0.9,
+  "alternatives": [{ "rephrasedQuery": "The query with another interpretation.", "confidence": 0.1 }],
+  "clarifyingQuestion": "A short question telling the interpretations apart, or null."` : ""}
+}
+`;
+
+    try {
+        const result = await model.generateContent({
+            contents: [{ role: "user", parts: [{ text: prompt }] }],
+            generationConfig: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                        rephrasedQuery: {
+                            type: SchemaType.STRING,
+                            description: "The precise, augmented query suitable for a routing engine."
+                        },
+                        reason: {
+                            type: SchemaType.STRING,
+                            description: "Brief explanation of corrections (typos, ambiguity) and augmentations (context, profile needs) applied."
+                        },
+                        routeRequest: buildRouteRequestSchema(),
+                        detectedLanguage: buildDetectedLanguageSchema(),
+                        ...(clarification ? buildClarificationSchemaProperties() : {}),
+                    },
+                    required: ['rephrasedQuery', 'reason', 'routeRequest', 'detectedLanguage', ...(clarification ? ['confidence', 'alternatives'] : [])],
+                },
+            },
+        });
+        const response = result.response;
+
+         if (!response || !response.candidates || response.candidates.length === 0 || !response.candidates[0].content || !response.candidates[0].content.parts || response.candidates[0].content.parts.length === 0) {
+             console.warn("Received an empty or invalid response structure from the model.");
+             return null;
+         }
+
+        const responseText = response.candidates[0].content.parts[0].text;
+
+        if (!responseText) {
+             console.warn("No response text received from the model candidate.");
+             return null;
+         }
+
+
+        try {
+            const parsedResponse = JSON.parse(responseText);
+            if (!parsedResponse || !parsedResponse.rephrasedQuery || !parsedResponse.reason) {
+                console.warn("Parsed JSON response is missing required fields ('rephrasedQuery', 'reason').");
+                console.log("Raw response text:", responseText);
+                return null;
+            }
+            const refined: RephrasedQueryResponse = {
+                rephrasedQuery: parsedResponse.rephrasedQuery,
+                reason: parsedResponse.reason,
+                routeRequest: validateRouteRequest(parsedResponse.routeRequest),
+                detectedLanguage: validateDetectedLanguage(parsedResponse.detectedLanguage),
+            };
+            if (clarification) {
+                refined.clarification = validateClarification(parsedResponse, refined.rephrasedQuery, clarification);
+            }
+            return redactor ? redactor.restoreDeep(refined) : refined;
+        } catch (error) {
+            console.error("Error parsing JSON response:", error);
+            console.log("Raw response text:", responseText);
+            return null;
+        }
+    } catch (error: any) {
+        console.error("Error calling the Gemini API:", error);
+        if (error.message) {
+            console.error("Error message:", error.message);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,53 @@
+import { ObjectSchema, Schema, SchemaType } from "@google/generative-ai";
+import { ATTRIBUTION_SOURCES, CONSTRAINT_DESCRIPTIONS, SURFACE_PREFERENCES, TRAVEL_MODES } from '../../shared/routeRequest';
+
+// --- Response Schema ---
+// The route request types and their validation are shared with chat-sessions (../../shared/routeRequest.ts).
+
+/**
+ * Schema of a field with its source attribution.
+ */
+function attributedSchema(value: Schema, description: string): ObjectSchema {
+    return {
+        type: SchemaType.OBJECT,
+        description: `${description} Null when neither the query nor the context says.`,
+        nullable: true,
+        properties: {
+            value,
+            source: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: ATTRIBUTION_SOURCES,
+                description: "Where the value comes from: the user query, the conversation history, the user profile or the current location.",
+            },
+            evidence: {
+                type: SchemaType.STRING,
+                description: "The words of the source the value was taken from, e.g. 'Difficult navigating stairs'.",
+            },
+        },
+        required: ['value', 'source', 'evidence'],
+    };
+}
+
+export function buildRouteRequestSchema(): ObjectSchema {
+    return {
+        type: SchemaType.OBJECT,
+        description: "Structured route request for the routing engine. Null when the query doesn't ask for a route.",
+        nullable: true,
+        properties: {
+            origin: attributedSchema({ type: SchemaType.STRING }, "Where the route starts, as a place name or address."),
+            destination: attributedSchema({ type: SchemaType.STRING }, "Where the route ends, as a place name or address."),
+            travelMode: attributedSchema({ type: SchemaType.STRING, format: "enum", enum: TRAVEL_MODES }, "How the user travels."),
+            constraints: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    maxGradientPercent: attributedSchema({ type: SchemaType.NUMBER }, CONSTRAINT_DESCRIPTIONS.maxGradientPercent),
+                    avoidStairs: attributedSchema({ type: SchemaType.BOOLEAN }, CONSTRAINT_DESCRIPTIONS.avoidStairs),
+                    requireCurbCuts: attributedSchema({ type: SchemaType.BOOLEAN }, CONSTRAINT_DESCRIPTIONS.requireCurbCuts),
+                    surface: attributedSchema({ type: SchemaType.STRING, format: "enum", enum: SURFACE_PREFERENCES }, CONSTRAINT_DESCRIPTIONS.surface),
+                },
+            },
+        },
+        required: ['origin', 'destination', 'travelMode', 'constraints'],
+    };
+}
@@ -0,0 +1,181 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// --- Context Providers ---
+// The user's location, profile and conversation history change while the app runs, so the
+// examples read them through providers on every turn instead of hard-coding them. Providers
+// are either in-memory (set by the app) or file-backed (re-read on every call, so editing the
+// file takes effect on the next turn). Like the settings catalogue, this module only depends
+// on Node, so any example can import it with a relative path.
+
+// --- Interfaces ---
+export interface ConversationMessage {
+    role: string; // "user" or "assistant"
+    text: string;
+}
+
+export interface ContextProvider<T> {
+    readonly name: string;
+    // Returns the current value; called on every turn
+    get(): Promise<T>;
+}
+
+export interface HistoryProvider extends ContextProvider<ConversationMessage[]> {
+    append(...messages: ConversationMessage[]): Promise<void>;
+}
+
+export interface ContextProviders {
+    location: ContextProvider<string>;
+    profile: ContextProvider<string>;
+    history: HistoryProvider;
+}
+
+// Values of all the providers at one point in time
+export interface ContextSnapshot {
+    currentLocation: string;
+    userProfile: string;
+    conversationHistory: ConversationMessage[];
+}
+
+// File names used by createFileContextProviders
+export const LOCATION_FILE = "location.txt";
+export const PROFILE_FILE = "profile.txt";
+export const HISTORY_FILE = "history.json";
+
+// --- In-Memory Implementations ---
+export class InMemoryContextProvider<T> implements ContextProvider<T> {
+    constructor(readonly name: string, private value: T) {}
+
+    async get(): Promise<T> {
+        return this.value;
+    }
+
+    set(value: T): void {
+        this.value = value;
+    }
+}
+
+export class InMemoryHistoryProvider implements HistoryProvider {
+    readonly name = "history";
+    private readonly messages: ConversationMessage[];
+
+    constructor(messages: ConversationMessage[] = []) {
+        this.messages = [...messages];
+    }
+
+    async get(): Promise<ConversationMessage[]> {
+        return [...this.messages];
+    }
+
+    async append(...messages: ConversationMessage[]): Promise<void> {
+        this.messages.push(...messages);
+    }
+}
+
+// --- File-Backed Implementations ---
+/**
+ * Reads a plain text file (e.g. the location or the profile) on every call. When the file
+ * can't be read, the last value read (or the fallback) is returned, so a missing file doesn't
+ * stop the conversation.
+ */
+export class FileTextProvider implements ContextProvider<string> {
+    private lastValue: string;
+
+    constructor(readonly name: string, private readonly filePath: string, fallback = "") {
+        this.lastValue = fallback;
+    }
+
+    async get(): Promise<string> {
+        try {
+            this.lastValue = (await fs.readFile(this.filePath, 'utf-8')).trim();
+        } catch (error: any) {
+            console.error(`Error reading the ${this.name} from ${this.filePath}, using the last known value:`, error.message);
+        }
+        return this.lastValue;
+    }
+}
+
+/**
+ * Conversation history stored as a JSON array of messages. Missing files count as an empty history.
+ * A file that can't be read as a list is ignored when reading, but never overwritten: append()
+ * throws instead, so the user's file isn't replaced with only the new messages.
+ */
+export class FileHistoryProvider implements HistoryProvider {
+    readonly name = "history";
+
+    constructor(private readonly filePath: string) {}
+
+    async get(): Promise<ConversationMessage[]> {
+        try {
+            const messages = await this.read();
+            return messages.filter(m => typeof m?.role === "string" && typeof m?.text === "string");
+        } catch (error: any) {
+            console.error(`Error reading the history from ${this.filePath}, ignoring it:`, error.message);
+            return [];
+        }
+    }
+
+    async append(...messages: ConversationMessage[]): Promise<void> {
+        let existing: unknown[];
+        try {
+            existing = await this.read();
+        } catch (error: any) {
+            throw new Error(`Not saving the history to ${this.filePath}, it would overwrite the existing file: ${error.message}`);
+        }
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, JSON.stringify([...existing, ...messages], null, 2), 'utf-8');
+    }
+
+    /**
+     * The raw entries of the file, or [] when it doesn't exist. Throws when it holds anything but a list.
+     */
+    private async read(): Promise<any[]> {
+        let text: string;
+        try {
+            text = await fs.readFile(this.filePath, 'utf-8');
+        } catch (error: any) {
+            if (error.code === "ENOENT") return [];
+            throw error;
+        }
+        const messages = JSON.parse(text);
+        if (!Array.isArray(messages)) {
+            throw new Error(`${this.filePath} doesn't hold a list of messages.`);
+        }
+        return messages;
+    }
+}
+
+// --- Factories ---
+export function createInMemoryContextProviders(snapshot: ContextSnapshot): ContextProviders & {
+    location: InMemoryContextProvider<string>,
+    profile: InMemoryContextProvider<string>,
+} {
+    return {
+        location: new InMemoryContextProvider("location", snapshot.currentLocation),
+        profile: new InMemoryContextProvider("profile", snapshot.userProfile),
+        history: new InMemoryHistoryProvider(snapshot.conversationHistory),
+    };
+}
+
+/**
+ * Providers reading location.txt, profile.txt and history.json from a directory.
+ */
+export function createFileContextProviders(directory: string): ContextProviders {
+    return {
+        location: new FileTextProvider("location", path.join(directory, LOCATION_FILE)),
+        profile: new FileTextProvider("profile", path.join(directory, PROFILE_FILE)),
+        history: new FileHistoryProvider(path.join(directory, HISTORY_FILE)),
+    };
+}
+
+/**
+ * Reads all the providers at once, e.g. at the start of a turn.
+ */
+export async function readContext(providers: ContextProviders): Promise<ContextSnapshot> {
+    const [currentLocation, userProfile, conversationHistory] = await Promise.all([
+        providers.location.get(),
+        providers.profile.get(),
+        providers.history.get(),
+    ]);
+    return { currentLocation, userProfile, conversationHistory };
+}
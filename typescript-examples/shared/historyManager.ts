@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { ConversationMessage } from './contextProviders';
+
+// --- History Windowing ---
+// Keeps the conversation history that goes into a prompt within a token budget: the most recent
+// messages stay verbatim and older ones are rolled into a model-generated summary. The summary
+// keeps a list of the entities the user referred to, so "there" or "it" can still be resolved
+// after the message that named them was summarized. Like the other shared modules, this one only
+// depends on Node: the model is passed in as a plain text-generation function.
+
+// --- Interfaces ---
+// Sends a prompt to a model and returns the text of its answer
+export type TextGenerator = (prompt: string) => Promise<string>;
+
+export interface HistoryWindowOptions {
+    tokenBudget: number; // Estimated tokens for the whole history: summary plus verbatim messages
+    minRecentMessages: number; // Messages always kept verbatim, even over the budget
+}
+
+export interface HistoryWindow {
+    summary: string | null; // Summary of the messages before firstRecentIndex, null when nothing was summarized
+    entities: string[]; // Entities mentioned in the summarized messages, e.g. "Pacific Science Center (the museum the user asked about)"
+    recentMessages: ConversationMessage[];
+    firstRecentIndex: number; // Index of the first verbatim message, i.e. the number of summarized messages
+    estimatedTokens: number;
+}
+
+export const DEFAULT_HISTORY_WINDOW_OPTIONS: HistoryWindowOptions = {
+    tokenBudget: 1000,
+    minRecentMessages: 2,
+};
+
+// Share of the budget left for the summary once the history doesn't fit verbatim
+const SUMMARY_BUDGET_SHARE = 0.3;
+
+// Rough estimate for English text; good enough to stay within a budget without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function messageTokens(message: ConversationMessage): number {
+    return estimateTokens(`${message.role}: ${message.text}\n`);
+}
+
+function hashMessages(messages: ConversationMessage[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(messages)).digest('hex');
+}
+
+/**
+ * Adds new entities to a list, skipping the ones already there (compared by name, before any
+ * parenthesized description).
+ */
+function mergeEntities(existing: string[], added: string[]): string[] {
+    const key = (entity: string) => entity.split('(')[0].trim().toLowerCase();
+    const merged = [...existing];
+    for (const entity of added) {
+        if (typeof entity === "string" && entity.trim() && !merged.some(e => key(e) === key(entity))) {
+            merged.push(entity.trim());
+        }
+    }
+    return merged;
+}
+
+/**
+ * Builds the windows of a conversation and caches the summary, so each call only summarizes the
+ * messages that left the window since the previous one.
+ */
+export class HistoryManager {
+    private readonly options: HistoryWindowOptions;
+    private cache: { coveredCount: number, coveredHash: string, summary: string, entities: string[] } | null = null;
+
+    constructor(private readonly generateText: TextGenerator, options: Partial<HistoryWindowOptions> = {}) {
+        this.options = { ...DEFAULT_HISTORY_WINDOW_OPTIONS, ...options };
+    }
+
+    /**
+     * Splits the messages into a summary and the most recent messages that fit the budget.
+     * `canStartAt` restricts where the verbatim part may start, e.g. not between a function
+     * call and its response.
+     */
+    async window(messages: ConversationMessage[], canStartAt: (index: number) => boolean = () => true): Promise<HistoryWindow> {
+        const totalTokens = messages.reduce((sum, m) => sum + messageTokens(m), 0);
+        if (totalTokens <= this.options.tokenBudget) {
+            return { summary: null, entities: [], recentMessages: [...messages], firstRecentIndex: 0, estimatedTokens: totalTokens };
+        }
+
+        // Newest messages first, until the budget left after the summary is used up. The budget can
+        // be exceeded to reach the closest valid start point.
+        const recentBudget = this.options.tokenBudget * (1 - SUMMARY_BUDGET_SHARE);
+        let firstRecentIndex = messages.length;
+        let recentTokens = 0;
+        for (let i = messages.length - 1; i >= 0; i--) {
+            const tokens = messageTokens(messages[i]);
+            const keptMessages = messages.length - i - 1;
+            const hasStart = firstRecentIndex < messages.length;
+            if (hasStart && keptMessages >= this.options.minRecentMessages && recentTokens + tokens > recentBudget) break;
+            recentTokens += tokens;
+            if (canStartAt(i)) firstRecentIndex = i;
+        }
+        // No valid start point at all: keep the whole history rather than cut it badly
+        if (firstRecentIndex === messages.length) firstRecentIndex = 0;
+        if (firstRecentIndex === 0) {
+            return { summary: null, entities: [], recentMessages: [...messages], firstRecentIndex: 0, estimatedTokens: totalTokens };
+        }
+
+        const summarized = messages.slice(0, firstRecentIndex);
+        const { summary, entities } = await this.summarize(summarized);
+        const recentMessages = messages.slice(firstRecentIndex);
+        return {
+            summary,
+            entities,
+            recentMessages,
+            firstRecentIndex,
+            estimatedTokens: estimateTokens(summary + entities.join('; ')) + recentMessages.reduce((sum, m) => sum + messageTokens(m), 0),
+        };
+    }
+
+    private async summarize(messages: ConversationMessage[]): Promise<{ summary: string, entities: string[] }> {
+        // Reuse the cached summary when it covers a prefix of these messages
+        const cache = this.cache;
+        const previous = cache && cache.coveredCount <= messages.length && hashMessages(messages.slice(0, cache.coveredCount)) === cache.coveredHash
+            ? cache
+            : null;
+        const newMessages = messages.slice(previous?.coveredCount ?? 0);
+        if (previous && newMessages.length === 0) {
+            return { summary: previous.summary, entities: previous.entities };
+        }
+
+        const maxWords = Math.max(30, Math.floor(this.options.tokenBudget * SUMMARY_BUDGET_SHARE * 0.75));
+        const prompt = `Summarize the earlier part of a conversation between a user and the assistant of a navigation app, so the assistant can continue the conversation without the full transcript.
+Keep the places, things and people that were discussed, the user's needs and anything the user decided. Above all, keep every entity the user referred to or may refer to again as "there", "it" or "that place", and say what it is.
+${previous ? `\n[Summary so far]\n${previous.summary}\n` : ""}
+[Messages to ${previous ? "add to the summary" : "summarize"}]
+${newMessages.map(m => `${m.role}: ${m.text}`).join('\n')}
+
+Return only a JSON object: {"summary": "the summary, at most ${maxWords} words", "entities": ["Name (what it is and how the user referred to it)"]}`;
+
+        let summary: string;
+        let entities: string[] = previous?.entities ?? [];
+        try {
+            const text = (await this.generateText(prompt)).trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+            const parsed = JSON.parse(text);
+            if (typeof parsed?.summary !== "string" || parsed.summary.trim().length === 0) {
+                throw new Error("The summary is missing from the response.");
+            }
+            summary = parsed.summary.trim();
+            entities = mergeEntities(entities, Array.isArray(parsed.entities) ? parsed.entities : []);
+        } catch (error: any) {
+            // Without a summary, keep the start of each summarized message so nothing disappears entirely
+            console.error("Error summarizing the conversation history, using an excerpt instead:", error.message);
+            const excerpt = newMessages.map(m => `${m.role}: ${m.text.slice(0, 120)}${m.text.length > 120 ? "..." : ""}`).join(' / ');
+            summary = previous ? `${previous.summary} / ${excerpt}` : excerpt;
+        }
+
+        this.cache = { coveredCount: messages.length, coveredHash: hashMessages(messages), summary, entities };
+        return { summary, entities };
+    }
+}
+
+/**
+ * Summary part of a window for a prompt, or an empty string when nothing was summarized.
+ */
+export function formatHistorySummary(window: HistoryWindow): string {
+    if (!window.summary) return "";
+    const entities = window.entities.length > 0 ? `\nEntities referred to earlier: ${window.entities.join('; ')}` : "";
+    return `Summary of the earlier conversation: ${window.summary}${entities}`;
+}
+
+/**
+ * Window as prompt text: the summary (if any) followed by the verbatim messages.
+ */
+export function formatHistoryWindow(window: HistoryWindow): string {
+    const messages = window.recentMessages.map(m => `${m.role}: ${m.text}`).join('\n');
+    const summary = formatHistorySummary(window);
+    return summary ? `${summary}\n\nMost recent messages:\n${messages}` : messages;
+}
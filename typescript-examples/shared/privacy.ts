@@ -0,0 +1,264 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ContextSnapshot } from './contextProviders';
+
+// --- Privacy ---
+// Everything in a prompt leaves the process, so sensitive data is masked before the prompt is
+// assembled: free-text PII (emails, phone numbers, street addresses, names) is replaced with
+// placeholders such as [EMAIL_1], the current location can be replaced with [CURRENT_LOCATION]
+// and the user profile is reduced to the coarse constraints the policy allows (e.g. "Avoid stairs")
+// instead of raw diagnoses. The placeholders are restored in the model output where the real
+// values are needed, e.g. in the origin of a route request. Only depends on Node.
+
+// --- Interfaces ---
+export interface ProfileRule {
+    pattern: string; // Case-insensitive regular expression matched against the profile
+    share: string; // Coarse constraint shared instead, may use the groups of the pattern ($1)
+}
+
+export interface PrivacyPolicy {
+    // "share": the location is sent (after PII masking); "placeholder": only [CURRENT_LOCATION] is sent
+    location: "share" | "placeholder";
+    profile: {
+        // "constraints": only the constraints of the matching rules are sent; "redacted": the profile text after PII masking
+        mode: "constraints" | "redacted";
+        rules: ProfileRule[];
+    };
+    pii: {
+        emails: boolean;
+        phoneNumbers: boolean;
+        addresses: boolean;
+        names: boolean;
+    };
+}
+
+export const DEFAULT_PRIVACY_POLICY_PATH = path.join(__dirname, 'privacyPolicy.json');
+
+export const CURRENT_LOCATION_PLACEHOLDER = "[CURRENT_LOCATION]";
+
+// Added to prompts that contain placeholders, so the model keeps them intact
+export const PLACEHOLDER_INSTRUCTION = `Values in square brackets such as ${CURRENT_LOCATION_PLACEHOLDER} or [NAME_1] are placeholders for private information. Use them as if they were the real values and copy them unchanged wherever they are needed (e.g. "from ${CURRENT_LOCATION_PLACEHOLDER}").`;
+
+const NO_SHARED_NEEDS = "No specific needs shared.";
+
+export class PrivacyPolicyError extends Error {
+    constructor(filePath: string, readonly problems: string[]) {
+        super(`Invalid privacy policy ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = "PrivacyPolicyError";
+    }
+}
+
+// --- PII Patterns ---
+type PiiKind = "EMAIL" | "PHONE" | "ADDRESS" | "NAME";
+
+// One or two capitalized words, including accented letters (e.g. "José Álvarez")
+const NAME = "[A-ZÀ-Ý][a-zà-ÿ]+(?:\\s+[A-ZÀ-Ý][a-zà-ÿ]+)?";
+
+const STREET_SUFFIXES = "St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Dr|Drive|Ln|Lane|Way|Pl|Place|Ct|Court|Pkwy|Parkway|Hwy|Highway";
+
+// Ordered so the most specific patterns run first (an email contains no phone number, but an address may contain digits)
+const PII_PATTERNS: Array<{ kind: PiiKind, policyKey: keyof PrivacyPolicy["pii"], pattern: RegExp, group?: number }> = [
+    { kind: "EMAIL", policyKey: "emails", pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi },
+    { kind: "PHONE", policyKey: "phoneNumbers", pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+    {
+        kind: "ADDRESS",
+        policyKey: "addresses",
+        pattern: new RegExp(`\\b\\d{1,6}\\s+(?:[NSEW]\\.?\\s+)?(?:[A-Za-z0-9]+\\s+){0,3}(?:${STREET_SUFFIXES})\\b\\.?(?:\\s+(?:NE|NW|SE|SW|N|S|E|W)\\b)?`, 'g'),
+    },
+    // Names are only recognized where the text introduces them, e.g. "my name is Jane Doe", "me llamo José" or "Dr. Smith".
+    // Not "this is", which introduces places ("this is Space Needle") as often as people.
+    {
+        kind: "NAME",
+        policyKey: "names",
+        pattern: new RegExp(`\\b(?:[Mm]y name is|[Cc]all me|[Mm]e llamo|[Mm]i nombre es|[Mm]eu nome é|[Mm]e chamo)\\s+(${NAME})`, 'g'),
+        group: 1,
+    },
+    // "I am" / "I'm" is followed by a capitalized word that isn't a name as often ("I'm Looking for ..."),
+    // so it only counts when the name ends the clause: "I'm Ana." or "I am Ana Lopez, ..."
+    {
+        kind: "NAME",
+        policyKey: "names",
+        pattern: new RegExp(`\\b(?:I am|I'm)\\s+(${NAME})(?=\\s*(?:[.,;:!?]|$))`, 'g'),
+        group: 1,
+    },
+    { kind: "NAME", policyKey: "names", pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Dr|Sr|Sra|Dra)\\.?\\s+(${NAME})`, 'g'), group: 1 },
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks the raw contents of a policy file and returns the problems found (empty when valid).
+ */
+function validatePrivacyPolicy(raw: any): string[] {
+    const problems: string[] = [];
+    if (raw?.location !== "share" && raw?.location !== "placeholder") {
+        problems.push(`"location" must be "share" or "placeholder".`);
+    }
+    if (raw?.profile?.mode !== "constraints" && raw?.profile?.mode !== "redacted") {
+        problems.push(`"profile.mode" must be "constraints" or "redacted".`);
+    }
+    if (!Array.isArray(raw?.profile?.rules)) {
+        problems.push(`"profile.rules" must be a list.`);
+    } else {
+        raw.profile.rules.forEach((rule: any, index: number) => {
+            if (typeof rule?.pattern !== "string" || typeof rule?.share !== "string" || rule.share.trim().length === 0) {
+                problems.push(`Rule #${index + 1} needs a "pattern" and a non-empty "share" string.`);
+                return;
+            }
+            try {
+                new RegExp(rule.pattern, 'i');
+            } catch (error: any) {
+                problems.push(`Rule #${index + 1}: invalid pattern (${error.message}).`);
+            }
+        });
+    }
+    for (const key of ["emails", "phoneNumbers", "addresses", "names"]) {
+        if (typeof raw?.pii?.[key] !== "boolean") {
+            problems.push(`"pii.${key}" must be true or false.`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * Loads and validates a privacy policy. Throws a PrivacyPolicyError listing every problem, so a
+ * broken policy stops the example instead of silently sharing more than intended.
+ */
+export async function loadPrivacyPolicy(filePath: string = DEFAULT_PRIVACY_POLICY_PATH): Promise<PrivacyPolicy> {
+    let raw: any;
+    try {
+        raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+        throw new PrivacyPolicyError(filePath, [`Could not read the file: ${error.message}`]);
+    }
+    const problems = validatePrivacyPolicy(raw);
+    if (problems.length > 0) {
+        throw new PrivacyPolicyError(filePath, problems);
+    }
+    return raw as PrivacyPolicy;
+}
+
+/**
+ * The coarse constraints the policy allows to share for a profile, one per line.
+ */
+export function coarsenProfile(profile: string, rules: ProfileRule[]): string {
+    const shared: string[] = [];
+    for (const rule of rules) {
+        const match = profile.match(new RegExp(rule.pattern, 'i'));
+        if (!match) continue;
+        const constraint = rule.share.replace(/\$(\d)/g, (_, group) => match[Number(group)] ?? "");
+        if (!shared.includes(constraint)) shared.push(constraint);
+    }
+    return shared.length > 0 ? shared.map(c => `- ${c}`).join('\n') : NO_SHARED_NEEDS;
+}
+
+/**
+ * Masks sensitive data with placeholders and restores them afterwards. The same value always
+ * gets the same placeholder, so one Redactor should be used for a whole conversation.
+ */
+export class Redactor {
+    private readonly originals = new Map<string, string>(); // Placeholder -> original value
+    private readonly placeholders = new Map<string, string>(); // Original value -> placeholder
+    private readonly counters = new Map<PiiKind, number>();
+
+    constructor(readonly policy: PrivacyPolicy) {}
+
+    private placeholderFor(kind: PiiKind, value: string): string {
+        const existing = this.placeholders.get(value);
+        if (existing) return existing;
+        const count = (this.counters.get(kind) ?? 0) + 1;
+        this.counters.set(kind, count);
+        const placeholder = `[${kind}_${count}]`;
+        this.placeholders.set(value, placeholder);
+        this.originals.set(placeholder, value);
+        return placeholder;
+    }
+
+    /**
+     * Replaces the free-text PII the policy covers with placeholders. Values masked before (e.g. the
+     * current location) are masked again wherever they appear, such as in the result of a tool, and
+     * so are later mentions of a value found in the same text ("I am Ana. ... Ana").
+     */
+    redactText(text: string): string {
+        let redacted = this.maskKnownValues(text);
+        for (const { kind, policyKey, pattern, group } of PII_PATTERNS) {
+            if (!this.policy.pii[policyKey]) continue;
+            redacted = redacted.replace(pattern, (match, ...groups) => {
+                if (group === undefined) return this.placeholderFor(kind, match);
+                const value = groups[group - 1] as string;
+                return match.replace(value, this.placeholderFor(kind, value));
+            });
+        }
+        return this.maskKnownValues(redacted);
+    }
+
+    private maskKnownValues(text: string): string {
+        let masked = text;
+        const knownValues = [...this.placeholders.keys()].sort((a, b) => b.length - a.length);
+        for (const value of knownValues) {
+            // Whole words only, so a name such as "Ana" isn't masked inside "Banana" or "Ana@example.com"
+            const pattern = new RegExp(`(?<![\\p{L}\\p{N}_@])${escapeRegExp(value)}(?![\\p{L}\\p{N}_@])`, 'gu');
+            masked = masked.replace(pattern, () => this.placeholders.get(value)!);
+        }
+        return masked;
+    }
+
+    /**
+     * The context as it may be sent to the model: location and profile according to the policy and
+     * PII masked in the history.
+     */
+    redactContext(context: ContextSnapshot): ContextSnapshot {
+        let currentLocation: string;
+        if (this.policy.location === "placeholder" && context.currentLocation) {
+            // The placeholder always stands for the latest location
+            const previous = this.originals.get(CURRENT_LOCATION_PLACEHOLDER);
+            if (previous !== undefined) this.placeholders.delete(previous);
+            this.placeholders.set(context.currentLocation, CURRENT_LOCATION_PLACEHOLDER);
+            this.originals.set(CURRENT_LOCATION_PLACEHOLDER, context.currentLocation);
+            currentLocation = CURRENT_LOCATION_PLACEHOLDER;
+        } else {
+            currentLocation = this.redactText(context.currentLocation);
+        }
+        const userProfile = this.policy.profile.mode === "constraints"
+            ? coarsenProfile(context.userProfile, this.policy.profile.rules)
+            : this.redactText(context.userProfile);
+        return {
+            currentLocation,
+            userProfile,
+            conversationHistory: context.conversationHistory.map(m => ({ role: m.role, text: this.redactText(m.text) })),
+        };
+    }
+
+    /**
+     * Masks every string of a value, e.g. the response of a tool that goes back to the model.
+     */
+    redactDeep<T>(value: T): T {
+        if (typeof value === "string") return this.redactText(value) as T;
+        if (Array.isArray(value)) return value.map(item => this.redactDeep(item)) as T;
+        if (value && typeof value === "object") {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactDeep(item)])) as T;
+        }
+        return value;
+    }
+
+    /**
+     * Puts the original values back in place of the placeholders of this Redactor.
+     */
+    restore(text: string): string {
+        return text.replace(/\[(?:EMAIL|PHONE|ADDRESS|NAME)_\d+\]|\[CURRENT_LOCATION\]/g, placeholder => this.originals.get(placeholder) ?? placeholder);
+    }
+
+    /**
+     * Restores the placeholders in every string of a value, e.g. a parsed response or function call arguments.
+     */
+    restoreDeep<T>(value: T): T {
+        if (typeof value === "string") return this.restore(value) as T;
+        if (Array.isArray(value)) return value.map(item => this.restoreDeep(item)) as T;
+        if (value && typeof value === "object") {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.restoreDeep(item)])) as T;
+        }
+        return value;
+    }
+}
@@ -0,0 +1,143 @@
+// --- Route Request ---
+// The structured route request shared by the examples: rephrase-user-query extracts it from the
+// user query, and the find_route tool of chat-sessions receives it and passes its constraints to
+// the routing engine. Every inferred field carries the source it comes from, so the app can show
+// users why a constraint was applied. Like the settings catalogue, this module has no
+// dependencies, so any example can import it with a relative path; the response schemas stay in
+// the examples, since they are built with the Gemini SDK.
+
+// --- Interfaces ---
+// Where an inferred field comes from
+export type AttributionSource = "query" | "history" | "profile" | "location";
+
+export interface Attributed<T> {
+    value: T;
+    source: AttributionSource;
+    evidence: string; // The words of the source the value was taken from
+}
+
+export type TravelMode = "wheelchair" | "walking" | "transit" | "driving" | "cycling";
+
+export type SurfacePreference = "smooth" | "paved" | "any";
+
+// The constraints as the routing engine applies them
+export interface RouteConstraints {
+    maxGradientPercent?: number; // Steepest incline, up or down
+    avoidStairs?: boolean;
+    requireCurbCuts?: boolean; // Street crossings must have curb cuts
+    surface?: SurfacePreference;
+}
+
+export type ConstraintName = keyof RouteConstraints;
+
+// The same constraints, each with its attribution
+export type AccessibilityConstraints = {
+    [K in ConstraintName]?: Attributed<NonNullable<RouteConstraints[K]>>;
+};
+
+// Structured version of the rephrased query that a routing engine can consume
+export interface RouteRequest {
+    origin: Attributed<string> | null;
+    destination: Attributed<string> | null;
+    travelMode: Attributed<TravelMode> | null;
+    constraints: AccessibilityConstraints;
+}
+
+export const ATTRIBUTION_SOURCES: AttributionSource[] = ["query", "history", "profile", "location"];
+export const TRAVEL_MODES: TravelMode[] = ["wheelchair", "walking", "transit", "driving", "cycling"];
+export const SURFACE_PREFERENCES: SurfacePreference[] = ["smooth", "paved", "any"];
+
+// Descriptions of the constraints for the response schemas and tool declarations
+export const CONSTRAINT_DESCRIPTIONS: Record<ConstraintName, string> = {
+    maxGradientPercent: "Steepest incline the route may have, in percent.",
+    avoidStairs: "Whether the route must avoid stairs.",
+    requireCurbCuts: "Whether street crossings must have curb cuts.",
+    surface: "Preferred path surface.",
+};
+
+// Steeper than this isn't a walkable or rollable incline, the value must be a misreading
+export const MAX_GRADIENT_PERCENT = 30;
+
+// --- Validation ---
+/**
+ * Returns the field when it has a valid value and attribution, otherwise null (with a warning).
+ */
+function validateAttributed<T>(name: string, raw: any, isValid: (value: unknown) => value is T): Attributed<T> | null {
+    if (raw === null || raw === undefined) return null;
+    if (!isValid(raw.value) || !ATTRIBUTION_SOURCES.includes(raw.source)) {
+        console.warn(`Dropping invalid route request field ${name}:`, JSON.stringify(raw));
+        return null;
+    }
+    return { value: raw.value, source: raw.source, evidence: typeof raw.evidence === "string" ? raw.evidence.trim() : "" };
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+const isTravelMode = (value: unknown): value is TravelMode => TRAVEL_MODES.includes(value as TravelMode);
+const isSurface = (value: unknown): value is SurfacePreference => SURFACE_PREFERENCES.includes(value as SurfacePreference);
+const isGradient = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= MAX_GRADIENT_PERCENT;
+
+/**
+ * Validates a route request returned by the model. Fields with an invalid value or source are
+ * dropped rather than passed to the routing engine; returns null when there is no route request.
+ */
+export function validateRouteRequest(raw: any): RouteRequest | null {
+    if (!raw || typeof raw !== "object") return null;
+    const constraints: AccessibilityConstraints = {};
+    const rawConstraints = raw.constraints ?? {};
+    const maxGradientPercent = validateAttributed("constraints.maxGradientPercent", rawConstraints.maxGradientPercent, isGradient);
+    if (maxGradientPercent) constraints.maxGradientPercent = maxGradientPercent;
+    const avoidStairs = validateAttributed("constraints.avoidStairs", rawConstraints.avoidStairs, isBoolean);
+    if (avoidStairs) constraints.avoidStairs = avoidStairs;
+    const requireCurbCuts = validateAttributed("constraints.requireCurbCuts", rawConstraints.requireCurbCuts, isBoolean);
+    if (requireCurbCuts) constraints.requireCurbCuts = requireCurbCuts;
+    const surface = validateAttributed("constraints.surface", rawConstraints.surface, isSurface);
+    if (surface) constraints.surface = surface;
+
+    return {
+        origin: validateAttributed("origin", raw.origin, isNonEmptyString),
+        destination: validateAttributed("destination", raw.destination, isNonEmptyString),
+        travelMode: validateAttributed("travelMode", raw.travelMode, isTravelMode),
+        constraints,
+    };
+}
+
+/**
+ * The constraints without their attributions, as the routing engine takes them.
+ */
+export function toRouteConstraints(constraints: AccessibilityConstraints): RouteConstraints {
+    const plain: RouteConstraints = {};
+    if (constraints.maxGradientPercent) plain.maxGradientPercent = constraints.maxGradientPercent.value;
+    if (constraints.avoidStairs) plain.avoidStairs = constraints.avoidStairs.value;
+    if (constraints.requireCurbCuts) plain.requireCurbCuts = constraints.requireCurbCuts.value;
+    if (constraints.surface) plain.surface = constraints.surface.value;
+    return plain;
+}
+
+/**
+ * One line per field with the reason it was applied, e.g.
+ * "Avoid stairs: yes (from your profile: "Difficult navigating stairs")".
+ */
+export function formatRouteRequest(request: RouteRequest): string[] {
+    const sourceLabels: Record<AttributionSource, string> = {
+        query: "your query",
+        history: "the conversation",
+        profile: "your profile",
+        location: "your current location",
+    };
+    const line = (label: string, field: Attributed<unknown> | null | undefined, format: (value: any) => string = String) =>
+        field ? `${label}: ${format(field.value)} (from ${sourceLabels[field.source]}${field.evidence ? `: "${field.evidence}"` : ""})` : `${label}: not specified`;
+    const yesNo = (value: boolean) => value ? "yes" : "no";
+    const lines = [
+        line("Origin", request.origin),
+        line("Destination", request.destination),
+        line("Travel mode", request.travelMode),
+    ];
+    const { maxGradientPercent, avoidStairs, requireCurbCuts, surface } = request.constraints;
+    if (maxGradientPercent) lines.push(line("Max gradient", maxGradientPercent, value => `${value}%`));
+    if (avoidStairs) lines.push(line("Avoid stairs", avoidStairs, yesNo));
+    if (requireCurbCuts) lines.push(line("Require curb cuts", requireCurbCuts, yesNo));
+    if (surface) lines.push(line("Surface", surface));
+    return lines;
+}
@@ -0,0 +1,124 @@
+// --- Settings Catalogue ---
+// Single source of truth for the app settings shared by the examples: the adjustable-settings
+// tool derives its types, schemas and validation from it, and user-intent-classification
+// generates the UPDATE_APP_SETTINGS intent from it. Adding a setting only requires a new entry here.
+// This module has no dependencies, so any example can import it with a relative path.
+export interface BaseSettingSpec {
+    description: string;
+    examples: readonly string[];
+    keywords: readonly string[]; // Phrases that refer to the setting, used by the local resolver
+}
+
+export interface BooleanSettingSpec extends BaseSettingSpec {
+    type: "boolean";
+    default: boolean;
+    offKeywords?: readonly string[]; // Phrases that refer to the setting's 'false' state, e.g. "light mode" for darkMode
+}
+
+export interface NumberSettingSpec extends BaseSettingSpec {
+    type: "number";
+    default: number;
+    min: number;
+    max: number;
+    step: number; // Standard increment for "a bit more/less" requests; values are rounded to it from min
+}
+
+export interface EnumSettingSpec extends BaseSettingSpec {
+    type: "enum";
+    default: string;
+    values: readonly string[];
+}
+
+export type SettingSpec = BooleanSettingSpec | NumberSettingSpec | EnumSettingSpec;
+
+// --- App Settings ---
+// This can extend to any settings but for this example we are using some of them focused on accessibility.
+export const SETTINGS_CATALOGUE = {
+    darkMode: {
+        type: "boolean",
+        default: false,
+        description: "Display mode. 'true' for dark background with light text, 'false' for light background with dark text. Useful for light sensitivity or preference.",
+        examples: ["Enable dark mode", "Switch to light mode", "My eyes hurt from the bright screen", "I have photophobia"],
+        keywords: ["dark mode", "dark theme", "night mode"],
+        offKeywords: ["light mode", "light theme"]
+    },
+    fontSizeFactor: {
+        type: "number",
+        default: 1.0,
+        min: 0.8,
+        max: 2.0,
+        step: 0.2,
+        description: "Text size multiplier. Increases or decreases default text size.",
+        examples: ["Make text bigger", "Increase font size", "Shrink the text", "I find it hard to read this"],
+        keywords: ["font size", "font", "text size", "text", "letters"]
+    },
+    lineSpacing: {
+        type: "number",
+        default: 1.0,
+        min: 1.0,
+        max: 2.0,
+        step: 0.25,
+        description: "Line height multiplier for body text. More spacing makes long text easier to follow.",
+        examples: ["Add more space between lines", "The lines are too cramped", "I lose my place when reading", "Tighten the line spacing"],
+        keywords: ["line spacing", "line height", "space between lines", "spacing", "lines"]
+    },
+    notificationsEnabled: {
+        type: "boolean",
+        default: true,
+        description: "Master toggle for all app notifications. 'true' to allow notifications, 'false' to block all.",
+        examples: ["Turn off notifications", "Enable notifications", "I am not getting any notifications", "Disable notifications", "I don't want to be notified"],
+        keywords: ["notifications", "notification", "alerts"]
+    },
+    notificationVolume: {
+        type: "number",
+        default: 0.7,
+        min: 0.0,
+        max: 1.0,
+        step: 0.1,
+        description: "Volume for notification sounds, 0.0 is muted. Requires notificationsEnabled=true.",
+        examples: ["Make notifications louder", "Mute notification sounds", "Turn down the alert volume", "Can barely hear the pings"],
+        keywords: ["notification volume", "notification sounds", "notification sound", "alert volume", "volume", "pings", "louder", "quieter"]
+    },
+    reduceMotion: {
+        type: "boolean",
+        default: false,
+        description: "Reduces non-essential animations and motion effects. 'true' to reduce motion, 'false' for standard animations. Helps users sensitive to motion.",
+        examples: ["Reduce motion effects", "Turn off animations", "Too much movement on screen", "I get dizzy easily", "Turn on animation", "Turn on effects"],
+        keywords: ["reduce motion", "reduced motion", "motion"],
+        offKeywords: ["animations", "animation", "effects"]
+    },
+    autoPlayVideos: {
+        type: "boolean",
+        default: true,
+        description: "Controls if videos play automatically. 'true' to autoplay, 'false' to require manual play.",
+        examples: ["Stop videos from playing automatically", "Enable video autoplay", "Don't play videos unless I click", "I don't want videos start on their own"],
+        keywords: ["autoplay", "auto-play", "auto play", "play automatically", "playing automatically", "start on their own"]
+    },
+    highContrast: {
+        type: "boolean",
+        default: false,
+        description: "Increases color contrast between text and background. 'true' for high contrast mode, 'false' for standard contrast. Aids users with low vision.",
+        examples: ["Enable high contrast mode", "Increase contrast", "Make text stand out more", "Colors are hard to distinguish"],
+        keywords: ["high contrast", "contrast", "stand out"]
+    },
+    colorBlindMode: {
+        type: "enum",
+        default: "none",
+        values: ["none", "protanopia", "deuteranopia", "tritanopia"],
+        description: "Color filter that adapts the palette to a type of color vision deficiency. 'protanopia' (red-blind), 'deuteranopia' (green-blind), 'tritanopia' (blue-blind) or 'none'.",
+        examples: ["I am color blind", "I can't tell red from green", "Blue and yellow look the same to me", "Turn off the color filter"],
+        keywords: ["color blind", "colour blind", "colorblind", "color filter", "colour filter"]
+    },
+    textToSpeechRate: {
+        type: "number",
+        default: 1.0,
+        min: 0.5,
+        max: 2.0,
+        step: 0.25,
+        description: "Speed for screen reader voice.",
+        examples: ["Speak faster", "Slow down the reading speed", "Adjust voice speed", "Make the text-to-speech slower"],
+        keywords: ["text-to-speech", "text to speech", "speech rate", "reading speed", "voice speed", "voice", "speak", "screen reader"]
+    }
+} as const satisfies Record<string, SettingSpec>;
+
+export type SettingKey = keyof typeof SETTINGS_CATALOGUE;
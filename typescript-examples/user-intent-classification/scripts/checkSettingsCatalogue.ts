@@ -0,0 +1,143 @@
+// Consistency test between the shared settings catalogue, the settings the adjustable-settings
+// tool actually exports and the UPDATE_APP_SETTINGS intent of the committed taxonomies. Each side
+// is compared with the catalogue on its own, so a tool or taxonomy that stops deriving its
+// settings from it is caught. Exits with code 1 when they diverge.
+// Run with: npm test (or npm run check:settings)
+import fs from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_APP_SETTINGS, SETTING_DEFINITIONS } from '../../adjustable-settings/src/settings';
+import { SETTINGS_CATALOGUE, SettingKey } from '../../shared/settingsCatalogue';
+import { SETTINGS_CATALOGUE_SOURCE, describeSettingRange } from '../src/settingsIntent';
+import { ClassificationDefinition, loadTaxonomy } from '../src/taxonomy';
+
+const CONFIG_DIR = path.join(__dirname, '../config');
+const SETTINGS_INTENT = "UPDATE_APP_SETTINGS";
+
+const CATALOGUE_KEYS = Object.keys(SETTINGS_CATALOGUE) as SettingKey[];
+
+function compareKeys(label: string, keys: Iterable<string>): string[] {
+    const found = new Set(keys);
+    return [
+        ...CATALOGUE_KEYS.filter(key => !found.has(key)).map(key => `${label} is missing ${key}.`),
+        ...[...found].filter(key => !(key in SETTINGS_CATALOGUE)).map(key => `${label} has ${key}, which the catalogue doesn't.`),
+    ];
+}
+
+/**
+ * The settings adjustable-settings exports (SETTING_DEFINITIONS, DEFAULT_APP_SETTINGS) against the catalogue.
+ */
+function checkAdjustableSettings(): string[] {
+    const problems = compareKeys("SETTING_DEFINITIONS", SETTING_DEFINITIONS.map(d => d.key));
+    for (const definition of SETTING_DEFINITIONS) {
+        const spec = SETTINGS_CATALOGUE[definition.key as SettingKey];
+        if (!spec) continue;
+        if (!definition.description.includes(spec.description)) {
+            problems.push(`The description of ${definition.key} doesn't match the catalogue.`);
+        }
+        if (spec.type === "number" && !definition.description.includes(`${spec.min.toFixed(1)}-${spec.max.toFixed(1)}`)) {
+            problems.push(`The description of ${definition.key} doesn't give the range ${spec.min}-${spec.max}.`);
+        }
+        if (spec.type === "enum" && spec.values.some(value => !definition.description.includes(`"${value}"`))) {
+            problems.push(`The description of ${definition.key} doesn't list the values ${spec.values.join(', ')}.`);
+        }
+        if (JSON.stringify(definition.examples) !== JSON.stringify(spec.examples)) {
+            problems.push(`The examples of ${definition.key} don't match the catalogue.`);
+        }
+    }
+    problems.push(...compareKeys("DEFAULT_APP_SETTINGS", Object.keys(DEFAULT_APP_SETTINGS)));
+    for (const key of CATALOGUE_KEYS) {
+        const value = (DEFAULT_APP_SETTINGS as Record<string, unknown>)[key];
+        if (key in DEFAULT_APP_SETTINGS && value !== SETTINGS_CATALOGUE[key].default) {
+            problems.push(`The default of ${key} is ${JSON.stringify(value)}, the catalogue says ${JSON.stringify(SETTINGS_CATALOGUE[key].default)}.`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * The intent as written in the committed file: either generated from the catalogue, or a
+ * hand-written description that must still list every setting with its range and examples.
+ */
+function checkCommittedIntent(intent: any): string[] {
+    if (intent.generatedFrom === SETTINGS_CATALOGUE_SOURCE) return [];
+    const problems = [`${SETTINGS_INTENT} is described by hand; declare "generatedFrom: ${SETTINGS_CATALOGUE_SOURCE}" instead.`];
+    const description = typeof intent.description === "string" ? intent.description : "";
+    const examples: unknown[] = Array.isArray(intent.examples) ? intent.examples : [];
+    for (const key of CATALOGUE_KEYS) {
+        const spec = SETTINGS_CATALOGUE[key];
+        if (!description.includes(`* ${key} (${describeSettingRange(spec)})`)) {
+            problems.push(`The description doesn't describe ${key} as ${describeSettingRange(spec)}.`);
+        }
+        const missingExamples = spec.examples.filter(example => !examples.includes(example));
+        if (missingExamples.length > 0) problems.push(`Examples of ${key} are missing: ${missingExamples.join(', ')}`);
+    }
+    const settingSlot = Array.isArray(intent.slots) ? intent.slots.find((slot: any) => slot?.name === "setting") : undefined;
+    problems.push(...compareKeys(`The "setting" slot`, settingSlot?.values ?? []));
+    return problems;
+}
+
+/**
+ * The intent as the classifier is prompted with it (after loading) against the settings of the tool.
+ */
+function checkLoadedIntent(intent: ClassificationDefinition): string[] {
+    const problems: string[] = [];
+    const settingSlot = intent.slots?.find(slot => slot.name === "setting");
+    const slotValues = new Set(settingSlot?.values ?? []);
+    const toolKeys = new Set<string>(SETTING_DEFINITIONS.map(d => d.key));
+    for (const key of toolKeys) {
+        if (!slotValues.has(key)) problems.push(`The "setting" slot doesn't accept ${key}.`);
+    }
+    for (const value of slotValues) {
+        if (!toolKeys.has(value)) problems.push(`The "setting" slot accepts ${value}, which the settings tool doesn't have.`);
+    }
+    const valueSlot = intent.slots?.find(slot => slot.name === "value");
+    for (const definition of SETTING_DEFINITIONS) {
+        const missingExamples = definition.examples.filter(example => !intent.examples.includes(example));
+        if (missingExamples.length > 0) {
+            problems.push(`Examples of ${definition.key} known to the tool are missing: ${missingExamples.join(', ')}`);
+        }
+        const spec = SETTINGS_CATALOGUE[definition.key as SettingKey];
+        if (spec?.type === "number" && (valueSlot?.min === undefined || valueSlot.max === undefined || spec.min < valueSlot.min || spec.max > valueSlot.max)) {
+            problems.push(`The "value" slot range (${valueSlot?.min}-${valueSlot?.max}) doesn't cover ${definition.key} (${spec.min}-${spec.max}).`);
+        }
+        const range = valueSlot?.rangesBy?.ranges[definition.key];
+        if (spec?.type === "number" && (range?.min !== spec.min || range.max !== spec.max || range.step !== spec.step)) {
+            problems.push(`The "value" slot doesn't check ${definition.key} against its range ${spec.min}-${spec.max} in steps of ${spec.step}.`);
+        }
+    }
+    return problems;
+}
+
+function report(label: string, problems: string[]): boolean {
+    if (problems.length === 0) {
+        console.log(`${label}: matches the ${CATALOGUE_KEYS.length} settings of the catalogue`);
+        return true;
+    }
+    console.error(`${label}: diverges from the settings catalogue:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    return false;
+}
+
+async function main() {
+    let passed = report("adjustable-settings", checkAdjustableSettings());
+
+    const files = (await fs.readdir(CONFIG_DIR)).filter(file => /\.(json|ya?ml)$/i.test(file)).sort();
+    for (const file of files) {
+        const filePath = path.join(CONFIG_DIR, file);
+        const text = await fs.readFile(filePath, 'utf-8');
+        const raw = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+        const committed = (raw?.intents ?? []).find((intent: any) => intent?.name === SETTINGS_INTENT);
+        if (!committed) {
+            console.log(`${file}: no ${SETTINGS_INTENT} intent, skipped`);
+            continue;
+        }
+        const loaded = (await loadTaxonomy(filePath)).find(c => c.name === SETTINGS_INTENT)!;
+        passed = report(`${file}: ${SETTINGS_INTENT}`, [...checkCommittedIntent(committed), ...checkLoadedIntent(loaded)]) && passed;
+    }
+    if (!passed) process.exit(1);
+}
+
+main().catch(error => {
+    console.error("Unhandled error during execution:", error.message ?? error);
+    process.exit(1);
+});
@@ -0,0 +1,280 @@
+import { GenerationConfig, GenerativeModel, SchemaType } from "@google/generative-ai";
+import { LocalClassifier } from './localClassifier';
+import { SlotValue, buildSlotsSchema, describeSlots, validateSlots } from './slots';
+import { ClassificationDefinition, OTHER_CLASSIFICATION, QueryClassification, classificationNames } from './taxonomy';
+
+export interface RankedClassification {
+    queryClassification: QueryClassification;
+    reason: string;
+    confidence: number; // 0-1, combination of the self-reported confidence and the agreement across samples
+    selfReportedConfidence: number; // Average confidence reported by the model (0 for samples that didn't return the class), or the local similarity
+    agreement: number; // Share of the samples that returned the class (always 1 with a single sample)
+    slots?: Record<string, SlotValue>; // Validated slot values, when slot extraction is enabled
+    slotProblems?: string[]; // Slot values that were dropped or rounded and required slots that are missing
+}
+
+export interface ClassificationResponse {
+    response: RankedClassification[]; // Accepted classifications, most confident first
+    candidates: RankedClassification[]; // Top-k classifications before applying the threshold
+    abstained: boolean; // True when no classification reached the confidence threshold
+    path: "local" | "llm"; // Whether the local example-based classifier answered or the LLM was called
+}
+
+export interface ClassifyOptions {
+    topK: number; // Maximum number of ranked classifications returned
+    threshold: number; // Minimum confidence for a classification to be accepted
+    samples: number; // Number of classification calls; more than one adds the agreement across them to the confidence
+    // What to do when nothing reaches the threshold: return OTHER or an empty (abstained) response
+    onLowConfidence: "other" | "abstain";
+    fastPath: boolean; // Try the local example-based classifier before calling the LLM
+    fastPathThreshold: number; // Minimum similarity to an example for the local classifier to answer
+    extractSlots: boolean; // Also extract the slots the intents declare, e.g. the setting and value to change
+}
+
+export const DEFAULT_CLASSIFY_OPTIONS: ClassifyOptions = {
+    topK: 3,
+    threshold: 0.5,
+    samples: 1,
+    onLowConfidence: "other",
+    fastPath: false,
+    fastPathThreshold: 0.75,
+    extractSlots: false,
+};
+
+// The local classifier only answers when the best intent is clearly ahead of the second one
+const FAST_PATH_MARGIN = 0.3;
+
+// Built once per taxonomy, the examples don't change while the process runs
+const localClassifiers = new WeakMap<ClassificationDefinition[], LocalClassifier>();
+
+// Repeated samples need some randomness, otherwise they all return the same answer
+const SAMPLING_TEMPERATURE = 1.0;
+
+// Raw shape of one classification call
+interface SampledClassifications {
+    response: Array<{ queryClassification: QueryClassification, reason: string, confidence: number, slots?: Record<string, unknown> | null }>;
+}
+
+function clamp01(value: unknown): number {
+    return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * One classification call. Returns null when the call fails or the response can't be used.
+ */
+async function sampleClassifications(
+    model: GenerativeModel,
+    prompt: string,
+    classifications: ClassificationDefinition[],
+    temperature?: number,
+    extractSlots = false
+): Promise<SampledClassifications | null> {
+    const slotsSchema = extractSlots ? buildSlotsSchema(classifications) : null;
+    const generationConfig: GenerationConfig = {
+        responseMimeType: "application/json",
+        responseSchema: {
+        type: SchemaType.OBJECT,
+        properties: {
+            response: {
+                type: SchemaType.ARRAY,
+                items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                        queryClassification: {
+                            type: SchemaType.STRING,
+                            format: "enum",
+                            enum: classificationNames(classifications),
+                        },
+                        reason: {
+                            type: SchemaType.STRING,
+                        },
+                        confidence: {
+                            type: SchemaType.NUMBER,
+                            description: "Probability between 0 and 1 that the classification is correct.",
+                        },
+                        ...(slotsSchema ? { slots: slotsSchema } : {}),
+                    },
+                    required: ['queryClassification', 'reason', 'confidence'],
+                }
+            }
+        },
+        required: ['response'],
+        },
+    };
+    if (temperature !== undefined) generationConfig.temperature = temperature;
+
+    try {
+        const result = await model.generateContent({
+            contents: [{ role: "user", parts: [{ text: prompt }] }],
+            generationConfig,
+        });
+        const response = result.response;
+        if (!response || !response.text) {
+            console.warn("No response text received from the model.");
+            return null;
+        }
+        try {
+            const parsedResponse = JSON.parse(response.text()) as SampledClassifications;
+            if (!parsedResponse || !Array.isArray(parsedResponse.response) || parsedResponse.response.length === 0) {
+                console.warn("Invalid classification response format or empty classifications.");
+                console.log("Raw response:", response.text());
+                return null;
+            }
+            return parsedResponse;
+        } catch (error) {
+            console.error("Error parsing classification response:", error);
+            console.log("Raw response:", response.text());
+            return null;
+        }
+    } catch (error: any) {
+        console.error("Error calling the Gemini API:", error);
+        return null;
+    }
+}
+
+/**
+ * Merges the samples into one ranked list. The confidence of a class is its average self-reported
+ * confidence; with more than one sample it is the geometric mean of that and the share of samples
+ * that returned the class, so a class needs both to be high to get a high confidence.
+ * With `slotDefinitions`, the slots of the most confident sample of each class are validated and kept.
+ */
+function rankClassifications(samples: SampledClassifications[], slotDefinitions?: ClassificationDefinition[]): RankedClassification[] {
+    const byClass = new Map<QueryClassification, { reason: string, slots: unknown, bestConfidence: number, confidenceSum: number, count: number }>();
+    for (const sample of samples) {
+        // A sample could return the same class twice; only its most confident entry counts
+        const sampleBest = new Map<QueryClassification, { reason: string, slots: unknown, confidence: number }>();
+        for (const item of sample.response) {
+            const confidence = clamp01(item.confidence);
+            const current = sampleBest.get(item.queryClassification);
+            // Slots are returned under the intent name; only the ones of the returned class are used
+            const slots = item.slots?.[item.queryClassification];
+            if (!current || confidence > current.confidence) sampleBest.set(item.queryClassification, { reason: item.reason, slots, confidence });
+        }
+        for (const [name, { reason, slots, confidence }] of sampleBest) {
+            const stats = byClass.get(name) ?? { reason, slots, bestConfidence: -1, confidenceSum: 0, count: 0 };
+            if (confidence > stats.bestConfidence) {
+                stats.reason = reason;
+                stats.slots = slots;
+                stats.bestConfidence = confidence;
+            }
+            stats.confidenceSum += confidence;
+            stats.count++;
+            byClass.set(name, stats);
+        }
+    }
+
+    return [...byClass.entries()].map(([name, stats]) => {
+        const selfReportedConfidence = stats.confidenceSum / samples.length;
+        const agreement = stats.count / samples.length;
+        const confidence = samples.length > 1 ? Math.sqrt(selfReportedConfidence * agreement) : selfReportedConfidence;
+        const ranked: RankedClassification = {
+            queryClassification: name,
+            reason: stats.reason,
+            confidence: round(confidence),
+            selfReportedConfidence: round(selfReportedConfidence),
+            agreement: round(agreement),
+        };
+        const definition = slotDefinitions?.find(c => c.name === name);
+        if (definition?.slots) {
+            const { slots, problems } = validateSlots(definition, stats.slots);
+            ranked.slots = slots;
+            if (problems.length > 0) ranked.slotProblems = problems;
+        }
+        return ranked;
+    }).sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Answers without a network call when the query is nearly identical to the examples of one intent.
+ * Returns null for ambiguous queries, which go to the LLM.
+ */
+function classifyLocally(query: string, classifications: ClassificationDefinition[], options: ClassifyOptions): ClassificationResponse | null {
+    let localClassifier = localClassifiers.get(classifications);
+    if (!localClassifier) {
+        localClassifier = new LocalClassifier(classifications);
+        localClassifiers.set(classifications, localClassifier);
+    }
+    const matches = localClassifier.classify(query);
+    const [best, second] = matches;
+    if (!best || best.similarity < options.fastPathThreshold || best.similarity - (second?.similarity ?? 0) < FAST_PATH_MARGIN) {
+        return null;
+    }
+    const candidates: RankedClassification[] = matches.slice(0, options.topK).map(m => ({
+        queryClassification: m.queryClassification,
+        reason: `The query is similar (${m.similarity}) to the example "${m.nearestExample}".`,
+        confidence: m.similarity,
+        selfReportedConfidence: m.similarity,
+        agreement: 1,
+    }));
+    return { response: [candidates[0]], candidates, abstained: false, path: "local" };
+}
+
+export async function classifyQuery(
+    model: GenerativeModel,
+    query: string,
+    classifications: ClassificationDefinition[], // Loaded from the taxonomy file
+    options: Partial<ClassifyOptions> = {}
+): Promise<ClassificationResponse | null> {
+    const resolvedOptions = { ...DEFAULT_CLASSIFY_OPTIONS, ...options };
+    const { topK, threshold, samples, onLowConfidence, extractSlots } = resolvedOptions;
+    if (resolvedOptions.fastPath) {
+        const localResponse = classifyLocally(query, classifications, resolvedOptions);
+        // The local classifier can't extract slots, intents that declare them go to the LLM
+        const needsSlots = extractSlots && localResponse
+            && classifications.some(c => c.name === localResponse.response[0].queryClassification && c.slots && c.slots.length > 0);
+        if (localResponse && !needsSlots) return localResponse;
+    }
+
+    const classificationDetails = classifications.map(
+        (c) => `${c.name}: ${c.parent ? `(A more specific kind of ${c.parent}) ` : ""}${c.description} (Examples: ${c.examples.join(', ')})`
+    ).join('\n- ');
+
+    const prompt = `Classify the following user query into one or more of the following categories:
+- ${classificationDetails}
+
+User Query: "${query}"
+
+When both a specific category and its broader parent category match, prefer the specific one.
+
+Return a JSON object with a field "queryClassification" which is an array of the classifications from the provided list that best describe the user query along
+with the "reason" of why the classification is a match, e.g. because the user query mentions ...
+Also include the "confidence" of each classification: the probability, between 0 and 1, that it is correct. Be honest: use low values when the query is ambiguous or only loosely matches the category.`;
+    const slotDetails = extractSlots ? describeSlots(classifications) : "";
+    const fullPrompt = slotDetails ? `${prompt}
+
+For each classification, also fill in "slots" under the name of the classification with the values the query mentions. The slots per category are:
+- ${slotDetails}
+Use null for anything the query doesn't say; never guess a value.` : prompt;
+
+    const temperature = samples > 1 ? SAMPLING_TEMPERATURE : undefined;
+    const sampled = await Promise.all(
+        Array.from({ length: samples }, () => sampleClassifications(model, fullPrompt, classifications, temperature, extractSlots))
+    );
+    const validSamples = sampled.filter((s): s is SampledClassifications => s !== null);
+    if (validSamples.length === 0) {
+        return null;
+    }
+
+    const candidates = rankClassifications(validSamples, extractSlots ? classifications : undefined).slice(0, topK);
+    const accepted = candidates.filter(c => c.confidence >= threshold);
+    if (accepted.length > 0) {
+        return { response: accepted, candidates, abstained: false, path: "llm" };
+    }
+
+    if (onLowConfidence === "abstain") {
+        return { response: [], candidates, abstained: true, path: "llm" };
+    }
+    const best = candidates[0];
+    const other: RankedClassification = {
+        queryClassification: OTHER_CLASSIFICATION,
+        reason: `No classification reached the confidence threshold of ${threshold} (best: ${best.queryClassification} at ${best.confidence}).`,
+        confidence: round(1 - best.confidence), // How sure we are that none of the candidates applies
+        selfReportedConfidence: 0,
+        agreement: 0,
+    };
+    return { response: [other], candidates, abstained: true, path: "llm" };
+}
@@ -0,0 +1,375 @@
+import { GenerativeModel } from "@google/generative-ai";
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ClassifyOptions, RankedClassification, classifyQuery } from './classifier';
+import { ClassificationDefinition, QueryClassification, classificationNames } from './taxonomy';
+
+// --- Interfaces ---
+export interface LabelledQuery {
+    line: number; // Line of the dataset file, to find the row again
+    query: string;
+    label: QueryClassification;
+}
+
+interface ClassifiedRow extends LabelledQuery {
+    predicted: QueryClassification | null; // First (best) classification, null when the query couldn't be classified or the classifier abstained
+    confidence: number | null; // Confidence of the prediction
+    abstained: boolean;
+    classifications: RankedClassification[];
+    path: "local" | "llm" | null; // Classifier that answered, null when the query couldn't be classified
+    latencyMs: number;
+}
+
+interface ClassMetrics {
+    precision: number;
+    recall: number;
+    f1: number;
+    support: number; // Number of rows labelled with the class
+}
+
+// Predictions grouped by confidence: a calibrated classifier is right about 70% of the time at 0.7
+interface CalibrationBin {
+    range: string; // e.g. "0.6-0.8"
+    count: number;
+    averageConfidence: number;
+    accuracy: number;
+}
+
+export interface EvaluationReport {
+    generatedAt: string;
+    dataset: string;
+    model: string;
+    taxonomyHash: string; // Changes whenever a name, description or example of the classifications changes
+    classifyOptions: Partial<ClassifyOptions>;
+    summary: { total: number, correct: number, accuracy: number, failed: number, abstained: number, macroF1: number };
+    latencyMs: { mean: number, p50: number, p95: number };
+    // Queries answered by the local classifier and by the LLM, with the accuracy of each path
+    paths: Record<"local" | "llm", { count: number, accuracy: number }>;
+    perClass: Record<string, ClassMetrics>;
+    // Expected calibration error: average gap between confidence and accuracy, weighted by bin size
+    calibration: { expectedCalibrationError: number, bins: CalibrationBin[] };
+    confusionMatrix: Record<string, Record<string, number>>; // expected label -> predicted label -> count
+    misclassified: Array<{ line: number, query: string, expected: string, predicted: string, confidence: number | null, reasons: string[] }>;
+}
+
+// Column of the confusion matrix for queries the model couldn't classify
+const NO_PREDICTION = "NO_PREDICTION";
+
+// --- Dataset Loading ---
+
+function parseLabel(value: unknown, line: number, labels: QueryClassification[]): QueryClassification {
+    const label = String(value ?? "").trim().toUpperCase();
+    if (!labels.includes(label)) {
+        throw new Error(`Line ${line}: unknown label "${value}". Expected one of ${labels.join(', ')}.`);
+    }
+    return label;
+}
+
+/**
+ * Splits one CSV line into fields. Supports quoted fields with commas and escaped quotes ("").
+ */
+function parseCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field);
+    return fields.map(f => f.trim());
+}
+
+/**
+ * Loads a labelled dataset: a JSONL file with one {"query", "label"} object per line, or a CSV
+ * file with a "query,label" header. Every label must be an intent of the taxonomy.
+ */
+export async function loadDataset(filePath: string, classifications: ClassificationDefinition[]): Promise<LabelledQuery[]> {
+    const labels = classificationNames(classifications);
+    const raw = await fs.readFile(filePath, 'utf-8');
+    const lines = raw.split(/\r?\n/);
+    const rows: LabelledQuery[] = [];
+
+    if (path.extname(filePath).toLowerCase() === '.csv') {
+        const header = parseCsvLine(lines[0] ?? "").map(h => h.toLowerCase());
+        const queryColumn = header.indexOf("query");
+        const labelColumn = header.indexOf("label");
+        if (queryColumn === -1 || labelColumn === -1) {
+            throw new Error(`${filePath}: the CSV header must have "query" and "label" columns.`);
+        }
+        lines.slice(1).forEach((text, index) => {
+            if (text.trim().length === 0) return;
+            const line = index + 2;
+            const fields = parseCsvLine(text);
+            rows.push({ line, query: fields[queryColumn] ?? "", label: parseLabel(fields[labelColumn], line, labels) });
+        });
+    } else {
+        lines.forEach((text, index) => {
+            if (text.trim().length === 0) return;
+            const line = index + 1;
+            let parsed: any;
+            try {
+                parsed = JSON.parse(text);
+            } catch (error) {
+                throw new Error(`Line ${line}: invalid JSON.`);
+            }
+            rows.push({ line, query: String(parsed.query ?? ""), label: parseLabel(parsed.label, line, labels) });
+        });
+    }
+
+    const emptyRow = rows.find(r => r.query.trim().length === 0);
+    if (emptyRow) throw new Error(`Line ${emptyRow.line}: the query is empty.`);
+    return rows;
+}
+
+// --- Batch Classification ---
+
+/**
+ * Runs `task` over all items with at most `concurrency` of them in flight. Results keep the order of the items.
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+async function classifyDataset(
+    model: GenerativeModel,
+    classifications: ClassificationDefinition[],
+    rows: LabelledQuery[],
+    concurrency: number,
+    classifyOptions: Partial<ClassifyOptions>
+): Promise<ClassifiedRow[]> {
+    let done = 0;
+    return mapWithConcurrency(rows, concurrency, async (row) => {
+        const start = performance.now();
+        const result = await classifyQuery(model, row.query, classifications, classifyOptions);
+        const latencyMs = performance.now() - start;
+        done++;
+        console.log(`[${done}/${rows.length}] ${row.label} <- "${row.query}"`);
+        const best = result?.response[0];
+        return {
+            ...row,
+            predicted: best?.queryClassification ?? null,
+            confidence: best?.confidence ?? null,
+            abstained: result?.abstained ?? false,
+            classifications: result?.candidates ?? [],
+            path: result?.path ?? null,
+            latencyMs,
+        };
+    });
+}
+
+// --- Metrics ---
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator === 0 ? 0 : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+function percentile(sortedValues: number[], p: number): number {
+    if (sortedValues.length === 0) return 0;
+    return sortedValues[Math.min(sortedValues.length - 1, Math.ceil((p / 100) * sortedValues.length) - 1)];
+}
+
+function buildLatency(rows: ClassifiedRow[]): EvaluationReport["latencyMs"] {
+    const latencies = rows.map(r => r.latencyMs).sort((a, b) => a - b);
+    const mean = latencies.reduce((sum, l) => sum + l, 0) / (latencies.length || 1);
+    return { mean: Math.round(mean), p50: Math.round(percentile(latencies, 50)), p95: Math.round(percentile(latencies, 95)) };
+}
+
+function buildPaths(rows: ClassifiedRow[]): EvaluationReport["paths"] {
+    const stats = (path: "local" | "llm") => {
+        const pathRows = rows.filter(r => r.path === path);
+        return { count: pathRows.length, accuracy: ratio(pathRows.filter(r => r.predicted === r.label).length, pathRows.length) };
+    };
+    return { local: stats("local"), llm: stats("llm") };
+}
+
+const CALIBRATION_BINS = 5;
+
+function buildCalibration(rows: ClassifiedRow[]): EvaluationReport["calibration"] {
+    const predictedRows = rows.filter(r => r.predicted !== null && r.confidence !== null);
+    const bins: CalibrationBin[] = [];
+    let weightedGap = 0;
+    for (let i = 0; i < CALIBRATION_BINS; i++) {
+        const low = i / CALIBRATION_BINS;
+        const high = (i + 1) / CALIBRATION_BINS;
+        const binRows = predictedRows.filter(r => r.confidence! >= low && (r.confidence! < high || (i === CALIBRATION_BINS - 1 && r.confidence! <= high)));
+        if (binRows.length === 0) continue;
+        const averageConfidence = binRows.reduce((sum, r) => sum + r.confidence!, 0) / binRows.length;
+        const accuracy = binRows.filter(r => r.predicted === r.label).length / binRows.length;
+        weightedGap += Math.abs(averageConfidence - accuracy) * binRows.length;
+        bins.push({ range: `${low.toFixed(1)}-${high.toFixed(1)}`, count: binRows.length, averageConfidence: ratio(averageConfidence, 1), accuracy: ratio(accuracy, 1) });
+    }
+    return { expectedCalibrationError: ratio(weightedGap, predictedRows.length), bins };
+}
+
+function buildReport(
+    rows: ClassifiedRow[],
+    classifications: ClassificationDefinition[],
+    classifyOptions: Partial<ClassifyOptions>,
+    dataset: string,
+    modelName: string
+): EvaluationReport {
+    const labels = classificationNames(classifications);
+    const confusionMatrix: Record<string, Record<string, number>> = {};
+    for (const expected of labels) {
+        confusionMatrix[expected] = Object.fromEntries([...labels, NO_PREDICTION].map(predicted => [predicted, 0]));
+    }
+    for (const row of rows) {
+        confusionMatrix[row.label][row.predicted ?? NO_PREDICTION]++;
+    }
+
+    const perClass: Record<string, ClassMetrics> = {};
+    for (const label of labels) {
+        const truePositives = confusionMatrix[label][label];
+        const predictedCount = labels.reduce((sum, expected) => sum + confusionMatrix[expected][label], 0);
+        const support = Object.values(confusionMatrix[label]).reduce((sum, count) => sum + count, 0);
+        const precision = ratio(truePositives, predictedCount);
+        const recall = ratio(truePositives, support);
+        perClass[label] = { precision, recall, f1: ratio(2 * precision * recall, precision + recall), support };
+    }
+
+    const correct = rows.filter(r => r.predicted === r.label).length;
+    const classesWithSupport = labels.filter(l => perClass[l].support > 0);
+    const macroF1 = ratio(classesWithSupport.reduce((sum, l) => sum + perClass[l].f1, 0), classesWithSupport.length);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        dataset,
+        model: modelName,
+        taxonomyHash: createHash('sha256').update(JSON.stringify(classifications)).digest('hex').slice(0, 12),
+        classifyOptions,
+        summary: {
+            total: rows.length,
+            correct,
+            accuracy: ratio(correct, rows.length),
+            failed: rows.filter(r => r.predicted === null && !r.abstained).length,
+            abstained: rows.filter(r => r.abstained).length,
+            macroF1,
+        },
+        latencyMs: buildLatency(rows),
+        paths: buildPaths(rows),
+        perClass,
+        calibration: buildCalibration(rows),
+        confusionMatrix,
+        misclassified: rows.filter(r => r.predicted !== r.label).map(r => ({
+            line: r.line,
+            query: r.query,
+            expected: r.label,
+            predicted: r.predicted ?? NO_PREDICTION,
+            confidence: r.confidence,
+            reasons: r.classifications.map(c => `${c.queryClassification} (${c.confidence}): ${c.reason}`),
+        })),
+    };
+}
+
+function printReport(report: EvaluationReport): void {
+    const { summary } = report;
+    console.log("\n--- Evaluation Report ---");
+    console.log(`Dataset: ${report.dataset} (${summary.total} queries, taxonomy ${report.taxonomyHash})`);
+    console.log(`Accuracy: ${summary.accuracy} (${summary.correct}/${summary.total}), macro F1: ${summary.macroF1}, failed: ${summary.failed}, abstained: ${summary.abstained}`);
+    console.log(`Latency: mean ${report.latencyMs.mean}ms, p50 ${report.latencyMs.p50}ms, p95 ${report.latencyMs.p95}ms`);
+    console.log(`Paths: local ${report.paths.local.count} (accuracy ${report.paths.local.accuracy}), LLM ${report.paths.llm.count} (accuracy ${report.paths.llm.accuracy})`);
+
+    console.log("\nPer class:");
+    for (const [label, m] of Object.entries(report.perClass)) {
+        console.log(`  ${label.padEnd(22)} precision ${m.precision.toFixed(3)}  recall ${m.recall.toFixed(3)}  F1 ${m.f1.toFixed(3)}  support ${m.support}`);
+    }
+
+    console.log("\nConfusion matrix (rows: expected, columns: predicted):");
+    const columns = Object.keys(Object.values(report.confusionMatrix)[0] ?? {});
+    console.log(`  ${"".padEnd(22)} ${columns.map(c => c.padStart(22)).join(' ')}`);
+    for (const [expected, counts] of Object.entries(report.confusionMatrix)) {
+        console.log(`  ${expected.padEnd(22)} ${columns.map(c => String(counts[c]).padStart(22)).join(' ')}`);
+    }
+
+    console.log(`\nCalibration (expected calibration error ${report.calibration.expectedCalibrationError}):`);
+    for (const bin of report.calibration.bins) {
+        console.log(`  confidence ${bin.range}: ${bin.count} predictions, average confidence ${bin.averageConfidence.toFixed(3)}, accuracy ${bin.accuracy.toFixed(3)}`);
+    }
+
+    console.log(`\nMisclassified (${report.misclassified.length}):`);
+    for (const row of report.misclassified) {
+        console.log(`  Line ${row.line}: "${row.query}" expected ${row.expected}, got ${row.predicted}${row.confidence !== null ? ` (${row.confidence})` : ""}`);
+        row.reasons.forEach(reason => console.log(`    - ${reason}`));
+    }
+    console.log("-------------------------\n");
+}
+
+/**
+ * Classifies every query of a labelled dataset, prints the metrics and saves them as a JSON
+ * report, so the results of two versions of the classification descriptions can be diffed.
+ */
+export async function evaluateDataset(
+    model: GenerativeModel,
+    classifications: ClassificationDefinition[],
+    datasetPath: string,
+    { concurrency, outputPath, classifyOptions = {} }: { concurrency: number, outputPath: string, classifyOptions?: Partial<ClassifyOptions> }
+): Promise<EvaluationReport> {
+    const rows = await loadDataset(datasetPath, classifications);
+    console.log(`Classifying ${rows.length} queries from ${datasetPath} (concurrency ${concurrency})...`);
+    const classifiedRows = await classifyDataset(model, classifications, rows, concurrency, classifyOptions);
+    const report = buildReport(classifiedRows, classifications, classifyOptions, datasetPath, model.model);
+    printReport(report);
+
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`Report saved to ${outputPath}`);
+    return report;
+}
+
+/**
+ * Runs the evaluation twice, LLM-only and hybrid (local classifier first), and reports the
+ * difference in latency and accuracy. Both reports are saved together in one JSON file.
+ */
+export async function compareHybridWithLlmOnly(
+    model: GenerativeModel,
+    classifications: ClassificationDefinition[],
+    datasetPath: string,
+    { concurrency, outputPath, classifyOptions = {} }: { concurrency: number, outputPath: string, classifyOptions?: Partial<ClassifyOptions> }
+): Promise<{ llmOnly: EvaluationReport, hybrid: EvaluationReport }> {
+    const withSuffix = (suffix: string) => outputPath.replace(/(\.json)?$/, `.${suffix}.json`);
+    console.log("=== LLM-only ===");
+    const llmOnly = await evaluateDataset(model, classifications, datasetPath, { concurrency, outputPath: withSuffix("llm-only"), classifyOptions: { ...classifyOptions, fastPath: false } });
+    console.log("=== Hybrid ===");
+    const hybrid = await evaluateDataset(model, classifications, datasetPath, { concurrency, outputPath: withSuffix("hybrid"), classifyOptions: { ...classifyOptions, fastPath: true } });
+
+    console.log("--- Hybrid vs LLM-only ---");
+    console.log(`${"".padEnd(16)} ${"LLM-only".padStart(10)} ${"Hybrid".padStart(10)}`);
+    const row = (label: string, a: number, b: number) => console.log(`${label.padEnd(16)} ${String(a).padStart(10)} ${String(b).padStart(10)}`);
+    row("Accuracy", llmOnly.summary.accuracy, hybrid.summary.accuracy);
+    row("Macro F1", llmOnly.summary.macroF1, hybrid.summary.macroF1);
+    row("Mean latency ms", llmOnly.latencyMs.mean, hybrid.latencyMs.mean);
+    row("p95 latency ms", llmOnly.latencyMs.p95, hybrid.latencyMs.p95);
+    row("Sent to the LLM", llmOnly.paths.llm.count, hybrid.paths.llm.count);
+    console.log("--------------------------\n");
+
+    await fs.writeFile(outputPath, JSON.stringify({ llmOnly, hybrid }, null, 2), 'utf-8');
+    console.log(`Comparison saved to ${outputPath}`);
+    return { llmOnly, hybrid };
+}
@@ -0,0 +1,92 @@
+import { GenerativeModel } from "@google/generative-ai";
+import { HandlerContext, HandlerOutput, IntentHandler, IntentRouter } from './router';
+import { SlotValue } from './slots';
+
+// --- Handler Outputs ---
+// Request handed off to the settings-update flow (the adjustable-settings example)
+export interface SettingsUpdateRequest {
+    flow: "settings-update";
+    userRequest: string;
+    reason: string; // Why the query was classified as a settings change
+    slots?: Record<string, SlotValue>; // Target setting, direction and value, when slot extraction is enabled
+}
+
+// Runs the settings-update flow for a request and reports what it did, e.g. src/settingsFlow.ts.
+// Throws on failure, the router reports the error.
+export type SettingsUpdateFlow = (request: SettingsUpdateRequest) => Promise<HandlerOutput>;
+
+/**
+ * Asks the model for a plain-text answer. Throws on failure, the router reports the error.
+ */
+async function generateText(model: GenerativeModel, prompt: string): Promise<string> {
+    const result = await model.generateContent(prompt);
+    const text = result.response?.text?.().trim();
+    if (!text) {
+        throw new Error("No response text received from the model.");
+    }
+    return text;
+}
+
+/**
+ * UPDATE_APP_SETTINGS: runs the settings-update flow, which proposes and confirms the changes.
+ * Runs first, so an answer in the same turn sees the updated settings.
+ */
+export function createSettingsUpdateHandler(updateSettings: SettingsUpdateFlow): IntentHandler {
+    return {
+        name: "settings-update",
+        priority: 100,
+        async handle({ query, classification }: HandlerContext): Promise<HandlerOutput> {
+            const request: SettingsUpdateRequest = { flow: "settings-update", userRequest: query, reason: classification.reason };
+            if (classification.slots) request.slots = classification.slots;
+            return updateSettings(request);
+        },
+    };
+}
+
+/**
+ * INFORMATION_SEEKING: answers the question with the model.
+ */
+export function createQuestionAnsweringHandler(model: GenerativeModel): IntentHandler {
+    return {
+        name: "question-answering",
+        priority: 50,
+        async handle({ query }: HandlerContext): Promise<HandlerOutput> {
+            const answer = await generateText(model, `Answer the factual question in the following user message concisely and accurately. If the message also asks for something else, only answer the question.
+
+User message: "${query}"`);
+            return { text: answer };
+        },
+    };
+}
+
+/**
+ * Fallback for OTHER, intents without a handler and abstained classifications: replies
+ * conversationally, or asks a clarifying question when the classifier wasn't confident.
+ */
+export function createConversationalHandler(model: GenerativeModel): IntentHandler {
+    return {
+        name: "conversational",
+        priority: 0,
+        async handle({ query, result }: HandlerContext): Promise<HandlerOutput> {
+            const prompt = result.abstained
+                ? `The following user message is ambiguous; it could be about: ${result.candidates.map(c => c.queryClassification).join(', ') || "nothing specific"}.
+Ask the user one short, friendly question to find out what they want.
+
+User message: "${query}"`
+                : `Reply briefly and in a friendly way to the following user message, as an assistant of an accessible app.
+
+User message: "${query}"`;
+            return { text: await generateText(model, prompt), data: { clarification: result.abstained } };
+        },
+    };
+}
+
+/**
+ * Router with the default handlers of this example. Intents of other taxonomies (e.g.
+ * NAVIGATION) go to the conversational fallback until a handler is registered for them.
+ */
+export function createDefaultRouter(model: GenerativeModel, updateSettings: SettingsUpdateFlow): IntentRouter {
+    return new IntentRouter(createConversationalHandler(model))
+        .register("UPDATE_APP_SETTINGS", createSettingsUpdateHandler(updateSettings))
+        .register("INFORMATION_SEEKING", createQuestionAnsweringHandler(model));
+}
@@ -1,73 +1,117 @@
-import { GoogleGenerativeAI, GenerativeModel, SchemaType } from "@google/generative-ai";
+import { GoogleGenerativeAI } from "@google/generative-ai";
 import * as readline from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
+import path from 'path';
+import { ClassifyOptions, classifyQuery } from './classifier';
+import { compareHybridWithLlmOnly, evaluateDataset } from './evaluation';
+import { createDefaultRouter } from './handlers';
+import { createSettingsAssistantFlow } from './settingsFlow';
+import { ClassificationDefinition, DEFAULT_TAXONOMY_PATH, classificationNames, loadTaxonomy } from './taxonomy';
+
+const DEFAULT_EVAL_CONCURRENCY = 4;
+const REPORTS_DIR = path.join(__dirname, '../reports');
+
+interface EvalOptions {
+    datasetPath: string;
+    concurrency: number;
+    outputPath: string;
+    compare: boolean; // Run both LLM-only and hybrid and compare them
+}
+
+/**
+ * Removes an option such as "--taxonomy <file>" from the arguments and returns its value.
+ */
+function takeOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    if (index === -1) return undefined;
+    const [, value] = args.splice(index, 2);
+    if (!value) {
+        console.error(`Missing value after ${name}.`);
+        process.exit(1);
+    }
+    return value;
+}
 
-enum QueryClassification {
-    INFORMATION_SEEKING = "INFORMATION_SEEKING",
-    UPDATE_APP_SETTINGS = "UPDATE_APP_SETTINGS",
-    OTHER = "OTHER",
+/**
+ * Removes a flag such as "--hybrid" from the arguments and returns whether it was there.
+ */
+function takeFlag(args: string[], name: string): boolean {
+    const index = args.indexOf(name);
+    if (index === -1) return false;
+    args.splice(index, 1);
+    return true;
 }
 
-interface ClassificationDefinition {
-    name: QueryClassification;
-    description: string;
-    examples: string[];
+/**
+ * Removes the classifier options (available in both modes) from the arguments:
+ * [--top-k N] [--threshold 0-1] [--samples N] [--on-low-confidence other|abstain]
+ * [--hybrid] [--fast-path-threshold 0-1] [--slots]
+ */
+function takeClassifyOptions(args: string[]): Partial<ClassifyOptions> {
+    const options: Partial<ClassifyOptions> = {};
+    if (takeFlag(args, "--hybrid")) options.fastPath = true;
+    if (takeFlag(args, "--slots")) options.extractSlots = true;
+    const invalid = (name: string, value: string) => {
+        console.error(`Invalid value for ${name}: ${value}`);
+        process.exit(1);
+    };
+    const topK = takeOption(args, "--top-k");
+    if (topK !== undefined) {
+        if (!(Number(topK) >= 1)) invalid("--top-k", topK);
+        options.topK = Math.floor(Number(topK));
+    }
+    const threshold = takeOption(args, "--threshold");
+    if (threshold !== undefined) {
+        if (!(Number(threshold) >= 0 && Number(threshold) <= 1)) invalid("--threshold", threshold);
+        options.threshold = Number(threshold);
+    }
+    const samples = takeOption(args, "--samples");
+    if (samples !== undefined) {
+        if (!(Number(samples) >= 1)) invalid("--samples", samples);
+        options.samples = Math.floor(Number(samples));
+    }
+    const onLowConfidence = takeOption(args, "--on-low-confidence");
+    if (onLowConfidence !== undefined) {
+        if (onLowConfidence !== "other" && onLowConfidence !== "abstain") invalid("--on-low-confidence", onLowConfidence);
+        options.onLowConfidence = onLowConfidence as ClassifyOptions["onLowConfidence"];
+    }
+    const fastPathThreshold = takeOption(args, "--fast-path-threshold");
+    if (fastPathThreshold !== undefined) {
+        if (!(Number(fastPathThreshold) >= 0 && Number(fastPathThreshold) <= 1)) invalid("--fast-path-threshold", fastPathThreshold);
+        options.fastPathThreshold = Number(fastPathThreshold);
+    }
+    return options;
 }
 
-const classifications: ClassificationDefinition[] = [
-    {
-        name: QueryClassification.INFORMATION_SEEKING,
-        description: "The user is asking for factual information or explanations.",
-        examples: [
-            "What is the capital of France?",
-            "Explain how photosynthesis works.",
-            "Tell me about the latest news on AI.",
-        ],
-    },
-    {
-        name: QueryClassification.UPDATE_APP_SETTINGS,
-        description: `The user wants to modify settings or preferences within an application.
-                      The current supported settings are:
-                      * Darkmode (or lighmode): Users can pick their preferred mode. Some users may
-                        use darkmode if they are sensitive to light or have any other conditions that may
-                        them decide for a more dark interface or just by preference. Some other users will
-                        prefer the light mode.
-                      * Font size: The application supports a range of 0.5 to 2.0 for font magnification.
-                        This is a factor that will allow them to reduce or increase the default font size
-                        by a specific factor. Some users will prefer a bigger font size specially if they
-                        have complications reading small text. Other users may prefer even a smaller size
-                        to fit more content on the screen.
-                      * Notifications: User can change the volume of the notifications within a range of
-                        0 (muted) up to 1 (maximum volume). Users with hearing loss may benefit from
-                        having the maximum volume while other users may prefer to not be interruped
-                        and mute the notifications.`,
-        examples: [
-            "Turn on dark mode.",
-            "Enable light mode.",
-            "Increase the font size.",
-            "Decrease the text size.",
-            "Change the notification sound.",
-            "Mute notifications.",
-            "Adjust the volume.",
-            "I have light sensitivity.",
-            "I have difficulty reading small text.",
-            "I have low vision.",
-            "I don't like to be interrupted by notifications."
-        ],
-    },
-    {
-        name: QueryClassification.OTHER,
-        description: "The user's query does not fit into any of the other defined categories.",
-        examples: [
-            "Hello.",
-            "Thank you.",
-            "That's interesting.",
-        ],
-    },
-];
-
-interface ClassificationResponse {
-    response: Array<{queryClassification: QueryClassification, reason: string}>
+/**
+ * Parses the arguments of the batch evaluation mode:
+ * eval <dataset.jsonl|dataset.csv> [--concurrency N] [--output report.json] [--compare]
+ */
+function parseEvalArgs(args: string[]): EvalOptions {
+    const compare = takeFlag(args, "--compare");
+    const [datasetPath, ...flags] = args;
+    if (!datasetPath) {
+        console.error("Usage: npm run eval -- <dataset.jsonl|dataset.csv> [--concurrency N] [--output report.json] [--compare]");
+        process.exit(1);
+    }
+    const options: EvalOptions = {
+        datasetPath,
+        compare,
+        concurrency: DEFAULT_EVAL_CONCURRENCY,
+        outputPath: path.join(REPORTS_DIR, `eval-${new Date().toISOString().replace(/[:.]/g, '-')}.json`),
+    };
+    for (let i = 0; i < flags.length; i += 2) {
+        const value = flags[i + 1];
+        if (flags[i] === "--concurrency" && Number(value) >= 1) {
+            options.concurrency = Math.floor(Number(value));
+        } else if (flags[i] === "--output" && value) {
+            options.outputPath = value;
+        } else {
+            console.error(`Invalid argument: ${flags[i]} ${value ?? ""}`);
+            process.exit(1);
+        }
+    }
+    return options;
 }
 
 async function getApiKey(): Promise<string> {
@@ -85,9 +129,9 @@ async function getApiKey(): Promise<string> {
     return apiKey.trim();
 }
 
-async function getUserQuery(): Promise<string> {
+async function getUserQuery(classifications: ClassificationDefinition[]): Promise<string> {
     const rl = readline.createInterface({ input, output });
-    const query = await rl.question('Enter the user query you want to classify into any of the following categories:  INFORMATION_SEEKING, UPDATE_APP_SETTINGS or OTHER: ');
+    const query = await rl.question(`Enter the user query you want to classify into any of the following categories:  ${classificationNames(classifications).join(', ')}: `);
     rl.close();
     if (!query || query.trim().length === 0) {
         console.error("\nQuery cannot be empty. Exiting.");
@@ -96,92 +140,63 @@ async function getUserQuery(): Promise<string> {
     return query.trim();
 }
 
-async function classifyQuery(model: GenerativeModel, query: string): Promise<ClassificationResponse | null> {
-    const classificationDetails = classifications.map(
-        (c) => `${c.name}: ${c.description} (Examples: ${c.examples.join(', ')})`
-    ).join('\n- ');
-
-    const prompt = `Classify the following user query into one or more of the following categories:
-- ${classificationDetails}
-
-User Query: "${query}"
-
-Return a JSON object with a field "queryClassification" which is an array of the classifications from the provided list that best describe the user query along 
-with the "reason" of why the classification is a match, e.g. because the user query mentions ...`;
-
-    try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            generationConfig: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                type: SchemaType.OBJECT,
-                properties: {
-                    response: {
-                        type: SchemaType.ARRAY,
-                        items: {
-                            type: SchemaType.OBJECT,
-                            properties: {
-                                queryClassification: {
-                                    type: SchemaType.STRING,
-                                    format: "enum",
-                                    enum:  Object.values(QueryClassification),
-                                },
-                                reason: {
-                                    type: SchemaType.STRING,
-                                }
-                            },
-                            required: ['queryClassification', 'reason'],
-                        }
-                    }
-                },
-                required: ['response'],
-                },
-            },
-        });
-        const response = result.response;
-        if (!response || !response.text) {
-            console.warn("No response text received from the model.");
-            return null;
-        }
-        try {
-            const parsedResponse = JSON.parse(response.text()) as ClassificationResponse;
-            if (!parsedResponse || !Array.isArray(parsedResponse.response) || parsedResponse.response.length === 0) {
-                console.warn("Invalid classification response format or empty classifications.");
-                console.log("Raw response:", response.text());
-                return null;
-            }
-            return parsedResponse;
-        } catch (error) {
-            console.error("Error parsing classification response:", error);
-            console.log("Raw response:", response.text());
-            return null;
-        }
-    } catch (error: any) {
-        console.error("Error calling the Gemini API:", error);
-        return null;
-    }
-}
-
 async function main() {
-    const apiKey = await getApiKey();
-    const userQuery = await getUserQuery();
+    const args = process.argv.slice(2);
+    const taxonomyPath = takeOption(args, "--taxonomy") ?? DEFAULT_TAXONOMY_PATH;
+    const classifyOptions = takeClassifyOptions(args);
+    // Batch mode: npm run eval -- <dataset>
+    const [mode, ...modeArgs] = args;
+    const evalOptions = mode === "eval" ? parseEvalArgs(modeArgs) : null;
+
+    // Fail fast on an invalid taxonomy, before asking for anything
+    const classifications = await loadTaxonomy(taxonomyPath);
+    console.log(`Loaded ${classifications.length} intents from ${taxonomyPath}`);
 
+    const apiKey = await getApiKey();
     const genAI = new GoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
 
-    const classificationResult = await classifyQuery(model, userQuery);
+    if (evalOptions) {
+        const evaluate = evalOptions.compare ? compareHybridWithLlmOnly : evaluateDataset;
+        await evaluate(model, classifications, evalOptions.datasetPath, { ...evalOptions, classifyOptions });
+        return;
+    }
+
+    const userQuery = await getUserQuery(classifications);
+
+    const classificationResult = await classifyQuery(model, userQuery, classifications, classifyOptions);
 
     if (classificationResult) {
         console.log("\n--- Classification Result ---");
         console.log("Query:", userQuery);
-        console.log("Classifications:", classificationResult.response.map(c => `${c.queryClassification}: ${c.reason}`));
+        console.log(`Classified by: ${classificationResult.path === "local" ? "local example-based classifier (no LLM call)" : "LLM"}`);
+        if (classificationResult.abstained) {
+            console.log("No classification is confident enough; the user should be asked to clarify.");
+        }
+        console.log("Classifications:", classificationResult.response.map(c => `${c.queryClassification} (${c.confidence}): ${c.reason}`));
+        for (const c of classificationResult.response.filter(c => c.slots)) {
+            console.log(`Slots of ${c.queryClassification}:`, c.slots, ...(c.slotProblems ? ["Dropped/missing:", c.slotProblems] : []));
+        }
+        console.log("Ranked candidates:", classificationResult.candidates.map(c => `${c.queryClassification}: ${c.confidence} (self-reported ${c.selfReportedConfidence}, agreement ${c.agreement})`));
         console.log("---------------------------\n");
+
+        const routing = await createDefaultRouter(model, createSettingsAssistantFlow(apiKey)).route(userQuery, classificationResult);
+        console.log("\n--- Response ---");
+        console.log(routing.text || "(No handler produced a response.)");
+        for (const routed of routing.outputs.filter(o => o.data !== undefined)) {
+            console.log(`${routed.handler} (${routed.intent}):`, JSON.stringify(routed.data));
+        }
+        for (const failure of routing.errors) {
+            console.error(`Handler "${failure.handler}" failed for ${failure.intent}: ${failure.message}`);
+        }
+        console.log("----------------\n");
     } else {
         console.log("\nCould not classify the query.\n");
     }
-
 }
 
-main();
+main().catch(error => {
+    console.error("Unhandled error during execution:", error.message ?? error);
+    process.exit(1);
+});
 
@@ -0,0 +1,107 @@
+import { ClassificationDefinition, QueryClassification } from './taxonomy';
+
+// --- Interfaces ---
+export interface LocalMatch {
+    queryClassification: QueryClassification;
+    similarity: number; // Cosine similarity (0-1) with the closest example of the intent
+    nearestExample: string;
+}
+
+// Sparse TF-IDF vector: n-gram -> weight
+type Vector = Map<string, number>;
+
+interface IndexedExample {
+    queryClassification: QueryClassification;
+    example: string;
+    vector: Vector;
+}
+
+// Character n-grams are robust to small typos and word forms ("notification" vs "notifications")
+const NGRAM_SIZES = [3, 4, 5];
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function ngrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const padded = ` ${normalize(text)} `;
+    for (const size of NGRAM_SIZES) {
+        for (let i = 0; i + size <= padded.length; i++) {
+            const gram = padded.slice(i, i + size);
+            counts.set(gram, (counts.get(gram) ?? 0) + 1);
+        }
+    }
+    return counts;
+}
+
+function cosine(a: Vector, b: Vector): number {
+    const [small, large] = a.size < b.size ? [a, b] : [b, a];
+    let dot = 0;
+    for (const [gram, weight] of small) {
+        dot += weight * (large.get(gram) ?? 0);
+    }
+    return dot; // Vectors are L2-normalized
+}
+
+/**
+ * Nearest-neighbour intent classifier built from the examples of the taxonomy. Queries and
+ * examples are compared as TF-IDF vectors of character n-grams, without any network call.
+ */
+export class LocalClassifier {
+    private readonly examples: IndexedExample[];
+    private readonly idf = new Map<string, number>();
+    private readonly unseenIdf: number; // IDF of an n-gram no example has, the highest possible
+
+    constructor(classifications: ClassificationDefinition[]) {
+        const documents = classifications.flatMap(c => c.examples.map(example => ({ queryClassification: c.name, example, counts: ngrams(example) })));
+
+        const documentFrequency = new Map<string, number>();
+        for (const { counts } of documents) {
+            for (const gram of counts.keys()) documentFrequency.set(gram, (documentFrequency.get(gram) ?? 0) + 1);
+        }
+        for (const [gram, frequency] of documentFrequency) {
+            // Smoothed IDF, so n-grams shared by every example still count a little
+            this.idf.set(gram, Math.log((1 + documents.length) / (1 + frequency)) + 1);
+        }
+        this.unseenIdf = Math.log(1 + documents.length) + 1;
+
+        this.examples = documents.map(({ queryClassification, example, counts }) => ({
+            queryClassification,
+            example,
+            vector: this.vectorize(counts),
+        }));
+    }
+
+    private vectorize(counts: Map<string, number>): Vector {
+        const vector: Vector = new Map();
+        let norm = 0;
+        for (const [gram, count] of counts) {
+            const idf = this.idf.get(gram);
+            const weight = (1 + Math.log(count)) * (idf ?? this.unseenIdf);
+            norm += weight * weight;
+            // N-grams never seen in the examples can't match anything, but they still count in the
+            // norm: a query made mostly of new words must not look like the few n-grams it shares
+            if (idf !== undefined) vector.set(gram, weight);
+        }
+        norm = Math.sqrt(norm);
+        for (const [gram, weight] of vector) vector.set(gram, weight / norm);
+        return vector;
+    }
+
+    /**
+     * Ranks the intents by the similarity of their closest example to the query, most similar first.
+     */
+    classify(query: string): LocalMatch[] {
+        const queryVector = this.vectorize(ngrams(query));
+        const best = new Map<QueryClassification, LocalMatch>();
+        for (const { queryClassification, example, vector } of this.examples) {
+            const similarity = queryVector.size === 0 ? 0 : cosine(queryVector, vector);
+            const current = best.get(queryClassification);
+            if (!current || similarity > current.similarity) {
+                best.set(queryClassification, { queryClassification, similarity: Math.round(similarity * 1000) / 1000, nearestExample: example });
+            }
+        }
+        return [...best.values()].sort((a, b) => b.similarity - a.similarity);
+    }
+}
@@ -0,0 +1,84 @@
+import { ClassificationResponse, RankedClassification } from './classifier';
+import { OTHER_CLASSIFICATION, QueryClassification } from './taxonomy';
+
+// --- Interfaces ---
+export interface HandlerContext {
+    query: string;
+    classification: RankedClassification; // The classification that selected the handler
+    result: ClassificationResponse; // The whole classification result, e.g. to see the other candidates
+}
+
+export interface HandlerOutput {
+    text: string; // Message for the user
+    data?: unknown; // Structured result for the caller, e.g. the request to hand off to another flow
+}
+
+export interface IntentHandler {
+    name: string;
+    // Handlers with a higher priority run first, e.g. apply a settings change before answering a question
+    priority: number;
+    handle(context: HandlerContext): Promise<HandlerOutput>;
+}
+
+export interface RoutedOutput extends HandlerOutput {
+    handler: string;
+    intent: QueryClassification;
+}
+
+export interface RoutingResult {
+    text: string; // Texts of all the handlers, merged in the order they ran
+    outputs: RoutedOutput[];
+    errors: Array<{ handler: string, intent: QueryClassification, message: string }>;
+}
+
+/**
+ * Dispatches classified queries to the handlers registered per intent. Intents without a
+ * handler, OTHER and abstained classifications go to the fallback (conversational) handler.
+ */
+export class IntentRouter {
+    private readonly handlers = new Map<QueryClassification, IntentHandler>();
+
+    constructor(private readonly fallback: IntentHandler) {}
+
+    register(intent: QueryClassification, handler: IntentHandler): this {
+        if (this.handlers.has(intent)) {
+            throw new Error(`A handler is already registered for ${intent}.`);
+        }
+        this.handlers.set(intent, handler);
+        return this;
+    }
+
+    /**
+     * Runs the handler of every accepted classification, highest priority first (ties go to the
+     * most confident classification). Each handler runs at most once, and a failing handler
+     * doesn't stop the others.
+     */
+    async route(query: string, result: ClassificationResponse): Promise<RoutingResult> {
+        const fallbackClassification: RankedClassification = result.response.find(c => c.queryClassification === OTHER_CLASSIFICATION)
+            ?? { queryClassification: OTHER_CLASSIFICATION, reason: "No classification was accepted.", confidence: 0, selfReportedConfidence: 0, agreement: 0 };
+        const classifications = result.response.length > 0 ? result.response : [fallbackClassification];
+
+        const selected = new Map<IntentHandler, RankedClassification>();
+        for (const classification of classifications) {
+            const handler = this.handlers.get(classification.queryClassification) ?? this.fallback;
+            if (!selected.has(handler)) selected.set(handler, classification);
+        }
+        const ordered = [...selected.entries()].sort(([handlerA, a], [handlerB, b]) =>
+            handlerB.priority - handlerA.priority || b.confidence - a.confidence
+        );
+
+        const outputs: RoutedOutput[] = [];
+        const errors: RoutingResult["errors"] = [];
+        for (const [handler, classification] of ordered) {
+            console.log(`Routing ${classification.queryClassification} to handler "${handler.name}"`);
+            try {
+                const output = await handler.handle({ query, classification, result });
+                outputs.push({ ...output, handler: handler.name, intent: classification.queryClassification });
+            } catch (error: any) {
+                console.error(`Error in handler "${handler.name}":`, error);
+                errors.push({ handler: handler.name, intent: classification.queryClassification, message: error.message ?? String(error) });
+            }
+        }
+        return { text: outputs.map(o => o.text).join('\n\n'), outputs, errors };
+    }
+}
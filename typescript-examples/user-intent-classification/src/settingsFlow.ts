@@ -0,0 +1,31 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { SettingsUpdateFlow } from './handlers';
+
+// The adjustable-settings example, run in its one-shot mode (--request) to apply a settings request
+export const ADJUSTABLE_SETTINGS_DIR = path.join(__dirname, '../../adjustable-settings');
+
+/**
+ * Settings-update flow that runs the adjustable-settings assistant on the request. The assistant
+ * shares the terminal, so the user confirms the proposed changes there; the API key is passed on
+ * so it isn't asked for twice.
+ */
+export function createSettingsAssistantFlow(apiKey: string, exampleDir: string = ADJUSTABLE_SETTINGS_DIR): SettingsUpdateFlow {
+    return async request => {
+        console.log(`\n--- Handing off to the settings assistant (${exampleDir}) ---`);
+        const exitCode = await new Promise<number | null>((resolve, reject) => {
+            const child = spawn("npx", ["ts-node", "src/index.ts", "--request", request.userRequest], {
+                cwd: exampleDir,
+                stdio: "inherit",
+                env: { ...process.env, GEMINI_API_KEY: apiKey },
+            });
+            child.on("error", reject);
+            child.on("close", resolve);
+        });
+        console.log("--- Back from the settings assistant ---");
+        if (exitCode !== 0) {
+            throw new Error(`The settings assistant stopped with exit code ${exitCode}, see its output above.`);
+        }
+        return { text: "The settings assistant handled the settings part of your request.", data: request };
+    };
+}
@@ -0,0 +1,76 @@
+import { SETTINGS_CATALOGUE, SettingKey, SettingSpec } from '../../shared/settingsCatalogue';
+import { ClassificationDefinition, SlotDefinition, SlotRange } from './taxonomy';
+
+// Taxonomy files declare `generatedFrom: settings-catalogue` instead of describing the settings by hand
+export const SETTINGS_CATALOGUE_SOURCE = "settings-catalogue";
+
+const SETTING_KEYS = Object.keys(SETTINGS_CATALOGUE) as SettingKey[];
+
+function getSettingSpec(key: SettingKey): SettingSpec {
+    return SETTINGS_CATALOGUE[key];
+}
+
+/**
+ * Type and range of a setting as written in the intent description, e.g. "number between 0.8 and 2.0".
+ */
+export function describeSettingRange(spec: SettingSpec): string {
+    switch (spec.type) {
+        case "boolean":
+            return "on or off";
+        case "number":
+            return `number between ${spec.min.toFixed(1)} and ${spec.max.toFixed(1)}`;
+        case "enum":
+            return `one of ${spec.values.join(', ')}`;
+    }
+}
+
+function settingsIntentDescription(): string {
+    const settings = SETTING_KEYS.map(key => `* ${key} (${describeSettingRange(getSettingSpec(key))}): ${getSettingSpec(key).description}`);
+    return `The user wants to modify settings or preferences within the application, either explicitly or by describing a need (e.g. light sensitivity or difficulty reading small text). The current supported settings are:\n${settings.join('\n')}`;
+}
+
+/**
+ * Range and step of every numeric setting, keyed by setting.
+ */
+function settingRanges(): Record<string, SlotRange> {
+    const ranges: Record<string, SlotRange> = {};
+    for (const key of SETTING_KEYS) {
+        const spec = getSettingSpec(key);
+        if (spec.type === "number") ranges[key] = { min: spec.min, max: spec.max, step: spec.step };
+    }
+    return ranges;
+}
+
+function settingsIntentSlots(): SlotDefinition[] {
+    const numberSpecs = SETTING_KEYS.map(getSettingSpec).filter(spec => spec.type === "number");
+    const options = [...new Set(SETTING_KEYS.map(getSettingSpec).flatMap(spec => spec.type === "enum" ? spec.values : []))];
+    return [
+        { name: "setting", type: "enum", values: [...SETTING_KEYS], description: "The setting the user wants to change." },
+        { name: "direction", type: "enum", values: ["increase", "decrease"], description: "Whether the user wants more or less of the setting, e.g. 'bigger text' is increase and 'quieter notifications' is decrease." },
+        { name: "enabled", type: "boolean", description: "For on/off settings, whether the user wants it on, e.g. 'turn on dark mode' is true and 'switch to light mode' is false." },
+        {
+            name: "value",
+            type: "number",
+            min: Math.min(...numberSpecs.map(spec => spec.min)),
+            max: Math.max(...numberSpecs.map(spec => spec.max)),
+            // The range above only bounds all the settings together; each setting is checked against its own
+            rangesBy: { slot: "setting", ranges: settingRanges() },
+            description: `An explicit value the user asks for, e.g. 1.4 for 'set font to 1.4x'. Ranges per setting: ${SETTING_KEYS.filter(key => getSettingSpec(key).type === "number").map(key => `${key} ${describeSettingRange(getSettingSpec(key))}`).join(', ')}.`,
+        },
+        { name: "option", type: "enum", values: options, description: "For settings with named options, the option the user asks for, e.g. 'deuteranopia' for colorBlindMode." },
+    ];
+}
+
+/**
+ * The UPDATE_APP_SETTINGS intent generated from the shared settings catalogue: the description
+ * lists every setting with its range, the examples are the settings' examples and the `setting`
+ * slot accepts exactly the catalogue keys.
+ */
+export function buildSettingsIntent(name: string): ClassificationDefinition {
+    return {
+        name,
+        description: settingsIntentDescription(),
+        examples: SETTING_KEYS.flatMap(key => [...getSettingSpec(key).examples]),
+        slots: settingsIntentSlots(),
+    };
+}
@@ -0,0 +1,142 @@
+import { ObjectSchema, Schema, SchemaType } from "@google/generative-ai";
+import { ClassificationDefinition, SlotDefinition, SlotRange } from './taxonomy';
+
+// --- Interfaces ---
+export type SlotValue = string | number | boolean;
+
+export interface SlotExtraction {
+    slots: Record<string, SlotValue>; // Only the values that passed validation
+    problems: string[]; // Values that were dropped or rounded and required slots that are missing
+}
+
+function slotSchema(slot: SlotDefinition): Schema {
+    const range = slot.type === "number" && (slot.min !== undefined || slot.max !== undefined)
+        ? ` Between ${slot.min ?? "-infinity"} and ${slot.max ?? "infinity"}.`
+        : "";
+    const base = { description: `${slot.description}${range} Null when the query doesn't say.`, nullable: true };
+    switch (slot.type) {
+        case "number":
+            return { ...base, type: SchemaType.NUMBER };
+        case "boolean":
+            return { ...base, type: SchemaType.BOOLEAN };
+        case "enum":
+            return { ...base, type: SchemaType.STRING, format: "enum", enum: slot.values ?? [] };
+        default:
+            return { ...base, type: SchemaType.STRING };
+    }
+}
+
+/**
+ * Response schema of the slots: one nullable object per intent that declares slots, so the model
+ * fills the slots of the intent it returns. Returns null when no intent declares slots.
+ */
+export function buildSlotsSchema(classifications: ClassificationDefinition[]): ObjectSchema | null {
+    const withSlots = classifications.filter(c => c.slots && c.slots.length > 0);
+    if (withSlots.length === 0) return null;
+    return {
+        type: SchemaType.OBJECT,
+        description: "Values mentioned in the query, only under the returned classification.",
+        nullable: true,
+        properties: Object.fromEntries(withSlots.map(c => [c.name, {
+            type: SchemaType.OBJECT,
+            nullable: true,
+            properties: Object.fromEntries(c.slots!.map(slot => [slot.name, slotSchema(slot)])),
+        }])),
+    };
+}
+
+function checkSlotValue(slot: SlotDefinition, value: unknown): string | null {
+    switch (slot.type) {
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) return `must be a number, got ${JSON.stringify(value)}`;
+            if ((slot.min !== undefined && value < slot.min) || (slot.max !== undefined && value > slot.max)) {
+                return `${value} is outside the range ${slot.min ?? "-infinity"} to ${slot.max ?? "infinity"}`;
+            }
+            return null;
+        case "boolean":
+            return typeof value === "boolean" ? null : `must be true or false, got ${JSON.stringify(value)}`;
+        case "enum":
+            return typeof value === "string" && slot.values!.includes(value) ? null : `must be one of ${slot.values!.join(', ')}, got ${JSON.stringify(value)}`;
+        default:
+            return typeof value === "string" && value.trim().length > 0 ? null : `must be a non-empty string, got ${JSON.stringify(value)}`;
+    }
+}
+
+/**
+ * The value rounded to the step of the range, counted from its min, as adjustable-settings does.
+ */
+function roundToStep(range: SlotRange, value: number): number {
+    if (!range.step) return value;
+    return parseFloat((range.min + Math.round((value - range.min) / range.step) * range.step).toFixed(6));
+}
+
+/**
+ * Checks a number slot declared with `rangesBy` against the range of the value its enum slot got,
+ * e.g. the `value` of UPDATE_APP_SETTINGS against the range of the chosen setting. Returns the
+ * value to keep (rounded to the step) or the problem that drops it. Without a value for the enum
+ * slot, only the slot's own min/max apply.
+ */
+function checkDependentRange(slot: SlotDefinition, value: number, slots: Record<string, SlotValue>): { value: number } | { problem: string } {
+    const { slot: sourceName, ranges } = slot.rangesBy!;
+    const key = slots[sourceName];
+    if (typeof key !== "string") return { value };
+    const range = Object.prototype.hasOwnProperty.call(ranges, key) ? ranges[key] : undefined;
+    if (!range) return { problem: `${key} doesn't take a number, got ${value}` };
+    if (value < range.min || value > range.max) return { problem: `${value} is outside the range of ${key}, ${range.min} to ${range.max}` };
+    return { value: roundToStep(range, value) };
+}
+
+/**
+ * Validates the slots returned for an intent against its declaration. Invalid values and slots the
+ * intent doesn't declare are dropped, never passed on. Numbers are also checked against the range
+ * that depends on another slot (`rangesBy`), e.g. the range of the setting the user wants to change.
+ */
+export function validateSlots(definition: ClassificationDefinition | undefined, raw: unknown): SlotExtraction {
+    const extraction: SlotExtraction = { slots: {}, problems: [] };
+    const declared = definition?.slots ?? [];
+    const values = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+    for (const [name, value] of Object.entries(values)) {
+        if (value !== null && value !== undefined && !declared.some(s => s.name === name)) {
+            extraction.problems.push(`${name}: not a slot of ${definition?.name ?? "this intent"}`);
+        }
+    }
+    for (const slot of declared) {
+        const value = values[slot.name];
+        if (value === null || value === undefined) {
+            if (slot.required) extraction.problems.push(`${slot.name}: required but missing`);
+            continue;
+        }
+        const problem = checkSlotValue(slot, value);
+        if (problem) {
+            extraction.problems.push(`${slot.name}: ${problem}`);
+        } else {
+            extraction.slots[slot.name] = typeof value === "string" ? value.trim() : value as SlotValue;
+        }
+    }
+    // Ranges that depend on another slot are checked once that slot has been validated
+    for (const slot of declared.filter(s => s.rangesBy && typeof extraction.slots[s.name] === "number")) {
+        const checked = checkDependentRange(slot, extraction.slots[slot.name] as number, extraction.slots);
+        if ("problem" in checked) {
+            delete extraction.slots[slot.name];
+            extraction.problems.push(`${slot.name}: ${checked.problem}`);
+        } else {
+            if (checked.value !== extraction.slots[slot.name]) {
+                extraction.problems.push(`${slot.name}: ${extraction.slots[slot.name]} rounded to ${checked.value}, the nearest step of ${extraction.slots[slot.rangesBy!.slot]}`);
+            }
+            extraction.slots[slot.name] = checked.value;
+        }
+    }
+    return extraction;
+}
+
+/**
+ * Slots of the intents, for the prompt, e.g. "UPDATE_APP_SETTINGS:\n  * value (number, 0-2): ...".
+ */
+export function describeSlots(classifications: ClassificationDefinition[]): string {
+    return classifications.filter(c => c.slots && c.slots.length > 0).map(c => `${c.name}:\n${c.slots!.map(slot => {
+        const detail = slot.type === "enum" ? `one of ${slot.values!.join('|')}`
+            : slot.type === "number" && (slot.min !== undefined || slot.max !== undefined) ? `number, ${slot.min ?? ""}-${slot.max ?? ""}`
+            : slot.type;
+        return `  * ${slot.name} (${detail}${slot.required ? ", required" : ""}): ${slot.description}`;
+    }).join('\n')}`).join('\n- ');
+}
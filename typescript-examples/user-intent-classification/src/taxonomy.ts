@@ -0,0 +1,239 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { SETTINGS_CATALOGUE_SOURCE, buildSettingsIntent } from './settingsIntent';
+
+// --- Interfaces ---
+// Name of an intent as declared in the taxonomy file, e.g. "UPDATE_APP_SETTINGS"
+export type QueryClassification = string;
+
+export type SlotType = "string" | "number" | "boolean" | "enum";
+
+// A typed value extracted from the query together with the intent, e.g. the setting to change
+export interface SlotDefinition {
+    name: string;
+    type: SlotType;
+    description: string;
+    values?: string[]; // Allowed values of an "enum" slot
+    min?: number; // Range of a "number" slot (inclusive)
+    max?: number;
+    // Range of a "number" slot per value of an enum slot, e.g. the range of each setting for the
+    // `value` slot of UPDATE_APP_SETTINGS. Values of the enum slot without a range take no number.
+    rangesBy?: { slot: string; ranges: Record<string, SlotRange> };
+    required?: boolean; // The intent can't be acted on without it
+}
+
+export interface SlotRange {
+    min: number;
+    max: number;
+    step?: number; // Values are rounded to it from min
+}
+
+export interface ClassificationDefinition {
+    name: QueryClassification;
+    description: string;
+    examples: string[];
+    parent?: QueryClassification; // Broader intent this one refines, e.g. PASSWORD_RESET -> ACCOUNT_HELP
+    slots?: SlotDefinition[];
+    generatedFrom?: string; // Set when the description, examples and slots come from a shared source
+}
+
+// Every taxonomy needs a catch-all intent for queries that fit nowhere else
+export const OTHER_CLASSIFICATION: QueryClassification = "OTHER";
+
+export const DEFAULT_TAXONOMY_PATH = path.join(__dirname, '../config', 'intents.json');
+
+export class TaxonomyError extends Error {
+    constructor(filePath: string, readonly problems: string[]) {
+        super(`Invalid intent taxonomy ${filePath}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = "TaxonomyError";
+    }
+}
+
+const SLOT_TYPES: SlotType[] = ["string", "number", "boolean", "enum"];
+
+function validateSlots(label: string, slots: any): string[] {
+    if (!Array.isArray(slots)) {
+        return [`Intent ${label}: "slots" must be a list.`];
+    }
+    const problems: string[] = [];
+    const names = new Set<string>();
+    slots.forEach((slot: any, index: number) => {
+        const slotLabel = `${label}.${typeof slot?.name === "string" ? slot.name : `#${index + 1}`}`;
+        if (typeof slot?.name !== "string" || !/^[a-z][A-Za-z0-9]*$/.test(slot.name)) {
+            problems.push(`Slot ${slotLabel}: "name" must be a camelCase string.`);
+        } else if (names.has(slot.name)) {
+            problems.push(`Slot ${slotLabel} is declared more than once.`);
+        } else {
+            names.add(slot.name);
+        }
+        if (!SLOT_TYPES.includes(slot?.type)) {
+            problems.push(`Slot ${slotLabel}: "type" must be one of ${SLOT_TYPES.join(', ')}.`);
+        }
+        if (typeof slot?.description !== "string" || slot.description.trim().length === 0) {
+            problems.push(`Slot ${slotLabel}: "description" must be a non-empty string.`);
+        }
+        if (slot?.type === "enum" && (!Array.isArray(slot.values) || slot.values.length === 0 || !slot.values.every((v: unknown) => typeof v === "string"))) {
+            problems.push(`Slot ${slotLabel}: an enum slot needs a non-empty list of string "values".`);
+        }
+        for (const bound of ["min", "max"]) {
+            if (slot?.[bound] !== undefined && (slot.type !== "number" || typeof slot[bound] !== "number")) {
+                problems.push(`Slot ${slotLabel}: "${bound}" is only allowed as a number on number slots.`);
+            }
+        }
+        if (typeof slot?.min === "number" && typeof slot?.max === "number" && slot.min > slot.max) {
+            problems.push(`Slot ${slotLabel}: "min" is greater than "max".`);
+        }
+        if (slot?.required !== undefined && typeof slot.required !== "boolean") {
+            problems.push(`Slot ${slotLabel}: "required" must be true or false.`);
+        }
+        if (slot?.rangesBy !== undefined) {
+            problems.push(...validateRangesBy(slotLabel, slot, slots));
+        }
+    });
+    return problems;
+}
+
+function validateRangesBy(slotLabel: string, slot: any, slots: any[]): string[] {
+    const { rangesBy } = slot;
+    if (slot.type !== "number") return [`Slot ${slotLabel}: "rangesBy" is only allowed on number slots.`];
+    const source = slots.find(other => other?.name === rangesBy?.slot);
+    if (source?.type !== "enum" || source === slot) {
+        return [`Slot ${slotLabel}: "rangesBy.slot" must name an enum slot of the same intent.`];
+    }
+    if (!rangesBy.ranges || typeof rangesBy.ranges !== "object" || Array.isArray(rangesBy.ranges)) {
+        return [`Slot ${slotLabel}: "rangesBy.ranges" must map values of ${source.name} to a range.`];
+    }
+    const problems: string[] = [];
+    for (const [value, range] of Object.entries<any>(rangesBy.ranges)) {
+        if (Array.isArray(source.values) && !source.values.includes(value)) {
+            problems.push(`Slot ${slotLabel}: "rangesBy.ranges" has ${value}, which isn't a value of ${source.name}.`);
+        }
+        if (typeof range?.min !== "number" || typeof range?.max !== "number" || range.min > range.max
+            || (range.step !== undefined && (typeof range.step !== "number" || range.step <= 0))) {
+            problems.push(`Slot ${slotLabel}: the range of ${value} needs numbers "min" <= "max" and an optional positive "step".`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * Fills in the intents declared with `generatedFrom` (e.g. UPDATE_APP_SETTINGS from the settings
+ * catalogue) and returns the problems found. Such intents must not also describe themselves by
+ * hand, otherwise the file and the source could drift apart again.
+ */
+function expandGeneratedIntents(raw: any): string[] {
+    if (!raw || !Array.isArray(raw.intents)) return [];
+    const problems: string[] = [];
+    for (const intent of raw.intents) {
+        if (intent?.generatedFrom === undefined) continue;
+        const label = typeof intent.name === "string" ? intent.name : "(unnamed)";
+        if (intent.generatedFrom !== SETTINGS_CATALOGUE_SOURCE) {
+            problems.push(`Intent ${label}: unknown "generatedFrom" source ${JSON.stringify(intent.generatedFrom)} (supported: ${SETTINGS_CATALOGUE_SOURCE}).`);
+            continue;
+        }
+        const handWritten = ["description", "examples", "slots"].filter(field => intent[field] !== undefined);
+        if (handWritten.length > 0) {
+            problems.push(`Intent ${label}: ${handWritten.join(', ')} are generated from ${intent.generatedFrom}; remove them from the file.`);
+            continue;
+        }
+        Object.assign(intent, buildSettingsIntent(intent.name));
+    }
+    return problems;
+}
+
+/**
+ * Checks the raw contents of a taxonomy file and returns the list of problems found (empty when valid).
+ */
+function validateTaxonomy(raw: any): string[] {
+    const problems: string[] = [];
+    if (!raw || !Array.isArray(raw.intents) || raw.intents.length === 0) {
+        return ['The file must have a non-empty "intents" list.'];
+    }
+
+    const names = new Set<string>();
+    raw.intents.forEach((intent: any, index: number) => {
+        const label = typeof intent?.name === "string" ? intent.name : `#${index + 1}`;
+        if (typeof intent?.name !== "string" || !/^[A-Z][A-Z0-9_]*$/.test(intent.name)) {
+            problems.push(`Intent ${label}: "name" must be an UPPER_SNAKE_CASE string.`);
+        } else if (names.has(intent.name)) {
+            problems.push(`Intent ${label} is declared more than once.`);
+        } else {
+            names.add(intent.name);
+        }
+        if (typeof intent?.description !== "string" || intent.description.trim().length === 0) {
+            problems.push(`Intent ${label}: "description" must be a non-empty string.`);
+        }
+        if (!Array.isArray(intent?.examples) || intent.examples.length === 0 || !intent.examples.every((e: unknown) => typeof e === "string")) {
+            problems.push(`Intent ${label}: "examples" must be a non-empty list of strings.`);
+        }
+        if (intent?.parent !== undefined && typeof intent.parent !== "string") {
+            problems.push(`Intent ${label}: "parent" must be the name of another intent.`);
+        }
+        if (intent?.slots !== undefined) {
+            problems.push(...validateSlots(label, intent.slots));
+        }
+    });
+
+    if (!names.has(OTHER_CLASSIFICATION)) {
+        problems.push(`The taxonomy must declare the catch-all intent ${OTHER_CLASSIFICATION}.`);
+    }
+
+    // Parents must exist and must not form a cycle
+    const parents = new Map<string, string>(
+        raw.intents.filter((i: any) => typeof i?.parent === "string").map((i: any) => [i.name, i.parent])
+    );
+    for (const [name, parent] of parents) {
+        if (!names.has(parent)) {
+            problems.push(`Intent ${name}: parent ${parent} is not declared.`);
+            continue;
+        }
+        const seen = new Set([name]);
+        let current: string | undefined = parent;
+        while (current !== undefined) {
+            if (seen.has(current)) {
+                problems.push(`Intent ${name}: the parent chain has a cycle (${[...seen, current].join(' -> ')}).`);
+                break;
+            }
+            seen.add(current);
+            current = parents.get(current);
+        }
+    }
+    return problems;
+}
+
+/**
+ * Loads the intent taxonomy from a JSON or YAML file (chosen by extension) and validates it.
+ * Throws a TaxonomyError listing every problem, so a broken file is caught at startup.
+ */
+export async function loadTaxonomy(filePath: string = DEFAULT_TAXONOMY_PATH): Promise<ClassificationDefinition[]> {
+    const text = await fs.readFile(filePath, 'utf-8');
+    const extension = path.extname(filePath).toLowerCase();
+    let raw: any;
+    try {
+        raw = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+    } catch (error: any) {
+        throw new TaxonomyError(filePath, [`Could not parse the file: ${error.message}`]);
+    }
+
+    const problems = expandGeneratedIntents(raw);
+    problems.push(...validateTaxonomy(raw));
+    if (problems.length > 0) {
+        throw new TaxonomyError(filePath, problems);
+    }
+    return raw.intents.map((intent: any) => ({
+        name: intent.name,
+        description: intent.description.trim(),
+        examples: intent.examples,
+        ...(intent.parent ? { parent: intent.parent } : {}),
+        ...(intent.slots?.length ? { slots: intent.slots } : {}),
+        ...(intent.generatedFrom ? { generatedFrom: intent.generatedFrom } : {}),
+    }));
+}
+
+/**
+ * Intent names in declaration order, e.g. for the `enum` of the response schema.
+ */
+export function classificationNames(classifications: ClassificationDefinition[]): QueryClassification[] {
+    return classifications.map(c => c.name);
+}